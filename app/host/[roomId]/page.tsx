@@ -5,9 +5,207 @@ import { useParams, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Mic, MicOff, Users, Copy, Radio, AlertCircle } from "lucide-react"
+import {
+  Mic,
+  MicOff,
+  Users,
+  Copy,
+  Radio,
+  AlertCircle,
+  Link,
+  UserX,
+  Ban,
+  Disc3,
+  Circle,
+  Download,
+  HardDrive,
+  Trash2,
+  Music,
+  ListMusic,
+  SlidersHorizontal,
+  AudioLines,
+  MonitorSpeaker,
+  FileAudio,
+  Play,
+  Pause,
+  Volume2,
+  VolumeX,
+  X,
+  MessageSquare,
+  ListOrdered,
+  ThumbsUp,
+  Check,
+  MicVocal,
+  ArrowRightLeft,
+  Headphones,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { io, type Socket } from "socket.io-client"
+import {
+  CHAT_REACTIONS,
+  HOST_PARENT_ID,
+  MAX_CHAT_MESSAGE_LENGTH,
+  RELAY_PEER_ID,
+  type ChatMessage,
+  type ClientToServerEvents,
+  type ConnectionStats,
+  type DjPresence,
+  type ListenerPresence,
+  type PlayedTrack,
+  type RecordingInfo,
+  type RoomMode,
+  type ServerToClientEvents,
+  type SourcePresence,
+  type StagePresence,
+  type TrackRequest,
+  type UpdateTrackRequestPayload,
+} from "@/lib/signaling"
+import { describeClient, getClientId } from "@/lib/client-id"
+import {
+  connectionQuality,
+  describeStats,
+  samplePeerStats,
+  worstQuality,
+  STATS_INTERVAL_MS,
+  type ConnectionQuality,
+  type StatsCounters,
+} from "@/lib/peer-stats"
+import {
+  createDjLink,
+  createInviteLink,
+  createSourcePassword,
+  downloadSetlist,
+  getHostToken,
+  listRecordings,
+  saveHostToken,
+  type ArchivedRecording,
+} from "@/lib/host-token"
+import { getIceServers } from "@/lib/ice"
+import {
+  captureMicrophone,
+  captureSystemAudio,
+  createMixer,
+  defaultDuckingSettings,
+  listMicrophones,
+  MAX_CHANNEL_VOLUME,
+  type DuckingSettings,
+  type Mixer,
+  type MixerChannel,
+  type MixerInputKind,
+} from "@/lib/mixer"
+import {
+  createProcessingChain,
+  defaultProcessingSettings,
+  deleteProcessingPreset,
+  loadProcessing,
+  processingRanges,
+  saveProcessingPreset,
+  saveProcessingSettings,
+  type ProcessingChain,
+  type ProcessingSettings,
+} from "@/lib/audio-processing"
+import {
+  discardLocalTake,
+  downloadLocalTake,
+  listLocalTakes,
+  localRecordingSupported,
+  startLocalRecording,
+  type LocalRecording,
+  type LocalTake,
+} from "@/lib/local-recording"
+import { backoffDelay, ICE_DISCONNECTED_TIMEOUT_MS, MAX_ICE_RESTARTS, socketOptions } from "@/lib/reconnect"
+
+const connectionStateColors: Record<ListenerPresence["connectionState"], string> = {
+  new: "bg-gray-400",
+  connecting: "bg-yellow-500",
+  connected: "bg-green-500",
+  disconnected: "bg-orange-500",
+  failed: "bg-red-500",
+  closed: "bg-gray-400",
+}
+
+const qualityColors: Record<ConnectionQuality, string> = {
+  good: "text-green-600",
+  fair: "text-amber-600",
+  poor: "text-red-600",
+}
+
+function QualityLabel({ quality, className = "" }: { quality: ConnectionQuality | null; className?: string }) {
+  if (!quality) return null
+  return <span className={`font-medium capitalize ${qualityColors[quality]} ${className}`}>{quality}</span>
+}
+
+// Roster details: client, join time, connection state and last reported receive quality
+function describeListener(listener: ListenerPresence) {
+  const joinedAt = new Date(listener.joinedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+  const details = [
+    describeClient(listener.client),
+    `joined ${joinedAt}`,
+    listener.disconnectedAt ? "reconnecting" : listener.connectionState,
+  ]
+  if (listener.stats) {
+    details.push(describeStats(listener.stats))
+  }
+  return details.join(" · ")
+}
+
+const djName = (dj: DjPresence) => dj.displayName ?? (dj.isOwner ? "Host" : "DJ")
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+// Length and size of a finished recording, e.g. "1:02:03 · 45.2 MB"
+function describeRecording({ startedAt, stoppedAt, bytes }: RecordingInfo) {
+  const seconds = Math.round(((stoppedAt ?? Date.now()) - startedAt) / 1000)
+  const length = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60]
+    .map((part, index) => (index === 0 ? String(part) : String(part).padStart(2, "0")))
+    .join(":")
+  return `${length} · ${(bytes / 1_000_000).toFixed(1)} MB`
+}
+
+// How long a reaction floats over the chat
+const REACTION_DISPLAY_MS = 3000
+
+const channelIcons: Record<MixerInputKind, typeof Mic> = {
+  system: MonitorSpeaker,
+  mic: Mic,
+  file: FileAudio,
+  guest: MicVocal,
+}
+
+function ProcessingSlider({
+  label,
+  setting,
+  settings,
+  unit,
+  step = 0.5,
+  onChange,
+}: {
+  label: string
+  setting: keyof typeof processingRanges
+  settings: ProcessingSettings
+  unit: string
+  step?: number
+  onChange: (update: Partial<ProcessingSettings>) => void
+}) {
+  const [min, max] = processingRanges[setting]
+  return (
+    <label className="grid grid-cols-[7rem_1fr_4rem] items-center gap-2 text-sm">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={settings[setting]}
+        onChange={(e) => onChange({ [setting]: Number(e.target.value) })}
+      />
+      <span className="text-right font-mono text-xs">
+        {settings[setting]}
+        {unit}
+      </span>
+    </label>
+  )
+}
 
 export default function HostPage() {
   const params = useParams()
@@ -17,15 +215,94 @@ export default function HostPage() {
 
   const [isStreaming, setIsStreaming] = useState(false)
   const [isMuted, setIsMuted] = useState(false)
-  const [listeners, setListeners] = useState<string[]>([])
+  const [listeners, setListeners] = useState<ListenerPresence[]>([])
   const [audioLevel, setAudioLevel] = useState(0)
+  const [isPrivate, setIsPrivate] = useState(false)
+  const [inviteLink, setInviteLink] = useState<{ url: string; expiresAt: Date } | null>(null)
+  const [maxListeners, setMaxListeners] = useState<number | null>(null)
+  const [maxListenersInput, setMaxListenersInput] = useState("")
+  // What this host measures on its own connection to each listener
+  const [sendStats, setSendStats] = useState<Map<string, ConnectionStats>>(new Map())
+  // Signaling reconnect attempt in progress, null while connected
+  const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null)
+  // ICE restart attempt per listener connection being recovered
+  const [iceRestarts, setIceRestarts] = useState<Record<string, number>>({})
+  // In relay mode the only peer connection is the one to the server, keyed by RELAY_PEER_ID.
+  // In cascade mode we only connect to the listeners the server assigns to us.
+  const [roomMode, setRoomMode] = useState<RoomMode>("mesh")
+  const [relayAvailable, setRelayAvailable] = useState(false)
+  // Listeners on the HTTP stream, fed through the relay whatever the mode
+  const [httpListeners, setHttpListeners] = useState(0)
+  // Broadcasting software connected to the room, which then feeds the relay instead of us
+  const [source, setSource] = useState<SourcePresence | null>(null)
+  const [icecastPort, setIcecastPort] = useState<number | null>(null)
+  const [recordingEnabled, setRecordingEnabled] = useState(false)
+  // The server-side recording of the room, while one is running
+  const [recording, setRecording] = useState<RecordingInfo | null>(null)
+  const [recordings, setRecordings] = useState<ArchivedRecording[]>([])
+  // Backups recorded in this browser, kept in IndexedDB until downloaded or discarded
+  const [localTakes, setLocalTakes] = useState<LocalTake[]>([])
+  // Only known in the browser, so it starts false to match the server render
+  const [canRecordLocally, setCanRecordLocally] = useState(false)
+  const [isRecordingLocally, setIsRecordingLocally] = useState(false)
+  // Applied to the audio before it is sent, and kept per room in this browser
+  const [processing, setProcessing] = useState<ProcessingSettings>(defaultProcessingSettings)
+  const [processingPresets, setProcessingPresets] = useState<Record<string, ProcessingSettings>>({})
+  const [presetName, setPresetName] = useState("")
+  const [gainReduction, setGainReduction] = useState({ compressor: 0, limiter: 0 })
+  // Inputs mixed into the stream while live
+  const [mixerChannels, setMixerChannels] = useState<MixerChannel[]>([])
+  const [channelLevels, setChannelLevels] = useState<Record<string, number>>({})
+  const [ducking, setDucking] = useState<DuckingSettings>(defaultDuckingSettings)
+  const [isDucked, setIsDucked] = useState(false)
+  const [microphones, setMicrophones] = useState<{ deviceId: string; label: string }[]>([])
+  const [microphoneId, setMicrophoneId] = useState("")
+  const [nowPlaying, setNowPlaying] = useState<PlayedTrack | null>(null)
+  const [trackInput, setTrackInput] = useState({ title: "", artist: "", artworkUrl: "", bpm: "" })
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [chatInput, setChatInput] = useState("")
+  const [reactions, setReactions] = useState<{ reactionId: number; emoji: string }[]>([])
+  const [trackRequests, setTrackRequests] = useState<TrackRequest[]>([])
+  const [stage, setStage] = useState<StagePresence | null>(null)
+  // Everyone hosting the room, and which of them is on air; the others stand by
+  const [djs, setDjs] = useState<DjPresence[]>([])
+  const [onAirId, setOnAirId] = useState<string | null>(null)
+  const [djLinkName, setDjLinkName] = useState("")
+  const [djLink, setDjLink] = useState<{ url: string; expiresAt: Date } | null>(null)
+  const [sourceSettings, setSourceSettings] = useState<Awaited<ReturnType<typeof createSourcePassword>> | null>(
+    null,
+  )
 
-  const socketRef = useRef<Socket | null>(null)
+  const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null)
+  // What we send: the mix of our inputs after the processing chain
   const streamRef = useRef<MediaStream | null>(null)
+  const mixerRef = useRef<Mixer | null>(null)
+  const processingChainRef = useRef<ProcessingChain | null>(null)
   const peerConnectionsRef = useRef<Map<string, RTCPeerConnection>>(new Map())
+  // The latest createPeerConnection call per peer that is still loading ICE servers; closing the
+  // peer or a newer call for it makes the call give up
+  const pendingPeersRef = useRef(new Map<string, object>())
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
   const animationFrameRef = useRef<number>()
+  const statsCountersRef = useRef<Map<string, StatsCounters>>(new Map())
+  const iceRecoveryRef = useRef<Map<string, { attempts: number; timer: ReturnType<typeof setTimeout> | null }>>(
+    new Map(),
+  )
+  const roomModeRef = useRef<RoomMode>("mesh")
+  const httpListenersRef = useRef(0)
+  const sourceRef = useRef<SourcePresence | null>(null)
+  const recordingRef = useRef<RecordingInfo | null>(null)
+  const localRecordingRef = useRef<LocalRecording | null>(null)
+  const chatScrollRef = useRef<HTMLDivElement>(null)
+  // The connection receiving the stage guest's microphone, and its mixer channel
+  const stageRef = useRef<StagePresence | null>(null)
+  const stageConnectionRef = useRef<RTCPeerConnection | null>(null)
+  const stageChannelIdRef = useRef<string | null>(null)
+  // Who was on air as of the last update, undefined until the first one after connecting
+  const onAirIdRef = useRef<string | null | undefined>(undefined)
+  // Set when this page was opened from a DJ link rather than by the room's owner
+  const djInviteRef = useRef<string | undefined>(undefined)
 
   useEffect(() => {
     if (!roomId) {
@@ -33,38 +310,215 @@ export default function HostPage() {
       return
     }
 
+    djInviteRef.current = new URLSearchParams(window.location.search).get("dj") ?? undefined
+
     // Initialize Socket.io connection
-    socketRef.current = io("/api/socket", {
-      query: { roomId, role: "host" },
-    })
+    socketRef.current = io(socketOptions)
 
     const socket = socketRef.current
 
-    socket.on("listener-joined", (listenerId: string) => {
-      setListeners((prev) => [...prev, listenerId])
-      if (streamRef.current) {
+    // Rejoining with the host token or DJ link reclaims the room after a dropped connection
+    socket.on("connect", () => {
+      setReconnectAttempt(null)
+      socket.emit("join-room", {
+        roomId,
+        role: "host",
+        clientId: getClientId(),
+        hostToken: getHostToken(roomId),
+        djInvite: djInviteRef.current,
+      })
+    })
+
+    socket.on("disconnect", (reason) => {
+      onAirIdRef.current = undefined
+      if (reason !== "io client disconnect") {
+        setReconnectAttempt(0)
+      }
+    })
+
+    socket.io.on("reconnect_attempt", (attempt) => {
+      setReconnectAttempt(attempt)
+    })
+
+    socket.on("room-joined", ({ isPrivate, hostToken }) => {
+      setIsPrivate(isPrivate)
+      if (hostToken) {
+        saveHostToken(roomId, hostToken)
+      }
+    })
+
+    socket.on("max-listeners-updated", ({ maxListeners }) => {
+      setMaxListeners(maxListeners)
+      setMaxListenersInput(maxListeners ? String(maxListeners) : "")
+    })
+
+    // Sent on every join too, so existing connections are always replaced: the relay is
+    // published to again here, for mesh the server follows up with listener-joined and for
+    // cascade with child-assigned
+    socket.on("room-mode-updated", ({ mode, relayAvailable }) => {
+      setRelayAvailable(relayAvailable)
+      roomModeRef.current = mode
+      setRoomMode(mode)
+      closeAllPeerConnections()
+      if (publishesToRelay() && streamRef.current && !sourceRef.current) {
+        createPeerConnection(RELAY_PEER_ID)
+      }
+    })
+
+    socket.on("http-listeners-updated", ({ count }) => {
+      httpListenersRef.current = count
+      setHttpListeners(count)
+      syncRelayPublisher()
+    })
+
+    socket.on("recording-updated", ({ recording }) => {
+      recordingRef.current = recording
+      setRecording(recording)
+      syncRelayPublisher()
+      refreshRecordings()
+    })
+
+    // Sent before the room mode changes, so we never try to publish over the source
+    socket.on("source-updated", ({ source }) => {
+      sourceRef.current = source
+      setSource(source)
+      if (source) {
+        closePeerConnection(RELAY_PEER_ID)
+      } else if (streamRef.current && publishesToRelay() && !peerConnectionsRef.current.has(RELAY_PEER_ID)) {
+        createPeerConnection(RELAY_PEER_ID)
+      }
+    })
+
+    // Also updated by DJ software and the now-playing API, so the form follows along
+    socket.on("now-playing-updated", ({ track }) => {
+      setNowPlaying(track)
+      setTrackInput({
+        title: track?.title ?? "",
+        artist: track?.artist ?? "",
+        artworkUrl: track?.artworkUrl ?? "",
+        bpm: track?.bpm ? String(track.bpm) : "",
+      })
+    })
+
+    socket.on("chat-history", ({ messages }) => {
+      setChatMessages(messages)
+    })
+
+    socket.on("chat-message", ({ message }) => {
+      setChatMessages((messages) => [...messages, message])
+    })
+
+    socket.on("chat-message-deleted", ({ messageId }) => {
+      setChatMessages((messages) => messages.filter((message) => message.messageId !== messageId))
+    })
+
+    socket.on("reaction", ({ emoji }) => {
+      showReaction(emoji)
+    })
+
+    socket.on("track-requests-updated", ({ requests }) => {
+      setTrackRequests(requests)
+    })
+
+    socket.on("stage-updated", ({ stage }) => {
+      const previous = stageRef.current
+      stageRef.current = stage
+      setStage(stage)
+
+      if (stage?.status === "live") {
+        if (previous?.status !== "live") connectStageGuest(stage.listenerId)
+        return
+      }
+      closeStageConnection()
+      if (!stage && previous) {
+        toast({
+          title: "Stage",
+          description:
+            previous.status === "invited" ? "The listener did not join the stage." : "The guest is off stage.",
+        })
+      }
+    })
+
+    // Handing off only moves the listeners: our stream keeps running, ready for the next one
+    socket.on("djs-updated", ({ djs, onAirId }) => {
+      const previous = onAirIdRef.current
+      onAirIdRef.current = onAirId
+      setDjs(djs)
+      setOnAirId(onAirId)
+
+      const next = djs.find((dj) => dj.djId === onAirId)
+      if (previous === socket.id && onAirId !== socket.id) {
+        closeAllPeerConnections()
+        setListeners([])
+        setSendStats(new Map())
+        toast({ title: "Off air", description: next ? `${djName(next)} is on air now.` : "Nobody is on air." })
+      } else if (previous !== undefined && previous !== socket.id && onAirId === socket.id) {
+        toast({ title: "You're on air", description: "Listeners are switching over to your stream." })
+      }
+    })
+
+    socket.on("error", ({ message }) => {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      })
+    })
+
+    // Also sent again for listeners we already know about, e.g. after our own reconnect or
+    // when a listener gave up on its connection, so always start a fresh one
+    socket.on("listener-joined", ({ listenerId, listener }) => {
+      setListeners((prev) => [...prev.filter((entry) => entry.listenerId !== listenerId), listener])
+      closePeerConnection(listenerId)
+      if (streamRef.current && roomModeRef.current === "mesh") {
         createPeerConnection(listenerId)
       }
     })
 
-    socket.on("listener-left", (listenerId: string) => {
-      setListeners((prev) => prev.filter((id) => id !== listenerId))
-      const pc = peerConnectionsRef.current.get(listenerId)
-      if (pc) {
-        pc.close()
-        peerConnectionsRef.current.delete(listenerId)
+    // The listener's roster entry is kept; only its connection is replaced
+    socket.on("listener-reconnected", ({ previousListenerId, listener }) => {
+      setListeners((prev) => prev.map((entry) => (entry.listenerId === previousListenerId ? listener : entry)))
+      closePeerConnection(previousListenerId)
+      closePeerConnection(listener.listenerId)
+      if (streamRef.current && roomModeRef.current === "mesh") {
+        createPeerConnection(listener.listenerId)
+      }
+    })
+
+    socket.on("child-assigned", ({ listenerId }) => {
+      closePeerConnection(listenerId)
+      if (streamRef.current) {
+        createPeerConnection(listenerId)
       }
     })
 
-    socket.on("ice-candidate", async ({ from, candidate }) => {
-      const pc = peerConnectionsRef.current.get(from)
+    // The listener moved under another listener, or left the tree
+    socket.on("child-removed", ({ listenerId }) => {
+      closePeerConnection(listenerId)
+    })
+
+    socket.on("listener-updated", ({ listener }) => {
+      setListeners((prev) =>
+        prev.some((entry) => entry.listenerId === listener.listenerId)
+          ? prev.map((entry) => (entry.listenerId === listener.listenerId ? listener : entry))
+          : [...prev, listener],
+      )
+    })
+
+    socket.on("listener-left", ({ listenerId }) => {
+      setListeners((prev) => prev.filter((entry) => entry.listenerId !== listenerId))
+      closePeerConnection(listenerId)
+    })
+
+    socket.on("ice-candidate", async ({ from, candidate, stage }) => {
+      const pc = stage ? stageConnectionRef.current : peerConnectionsRef.current.get(from)
       if (pc && candidate) {
         await pc.addIceCandidate(new RTCIceCandidate(candidate))
       }
     })
 
-    socket.on("answer", async ({ from, answer }) => {
-      const pc = peerConnectionsRef.current.get(from)
+    socket.on("answer", async ({ from, answer, stage }) => {
+      const pc = stage ? stageConnectionRef.current : peerConnectionsRef.current.get(from)
       if (pc && answer) {
         await pc.setRemoteDescription(new RTCSessionDescription(answer))
       }
@@ -74,13 +528,165 @@ export default function HostPage() {
       stopStreaming()
       socket.disconnect()
     }
-  }, [roomId, router])
+  }, [roomId, router, toast])
+
+  // Sample every listener connection while streaming
+  useEffect(() => {
+    if (!isStreaming) {
+      statsCountersRef.current.clear()
+      setSendStats(new Map())
+      return
+    }
+
+    const timer = setInterval(async () => {
+      const next = new Map<string, ConnectionStats>()
+      for (const [listenerId, pc] of peerConnectionsRef.current) {
+        const { counters, stats } = await samplePeerStats(
+          pc,
+          "outbound",
+          statsCountersRef.current.get(listenerId) ?? null,
+        )
+        if (counters) statsCountersRef.current.set(listenerId, counters)
+        if (stats) next.set(listenerId, stats)
+      }
+      setSendStats(next)
+    }, STATS_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [isStreaming])
+
+  // Broadcasting software can only connect when the server listens for it
+  useEffect(() => {
+    fetch("/api/config")
+      .then((response) => response.json())
+      .then(({ icecastPort, recordingEnabled }) => {
+        setIcecastPort(icecastPort ?? null)
+        setRecordingEnabled(!!recordingEnabled)
+        if (recordingEnabled) refreshRecordings()
+      })
+      .catch((error) => console.error("Error loading server config:", error))
+  }, [])
+
+  useEffect(() => {
+    const { current, presets } = loadProcessing(roomId)
+    setProcessing(current)
+    setProcessingPresets(presets)
+  }, [roomId])
+
+  // Keep the newest chat message in view
+  useEffect(() => {
+    chatScrollRef.current?.scrollTo({ top: chatScrollRef.current.scrollHeight })
+  }, [chatMessages])
+
+  // Takes from earlier sessions, including any left behind by a tab that crashed
+  useEffect(() => {
+    if (!localRecordingSupported()) return
+
+    setCanRecordLocally(true)
+    refreshLocalTakes()
+  }, [])
+
+  // The server needs our audio in relay mode, and in other modes for HTTP listeners and recordings
+  const publishesToRelay = () =>
+    roomModeRef.current === "relay" || httpListenersRef.current > 0 || !!recordingRef.current
+
+  const syncRelayPublisher = () => {
+    if (roomModeRef.current === "relay" || sourceRef.current) return
+
+    if (!publishesToRelay()) {
+      closePeerConnection(RELAY_PEER_ID)
+    } else if (streamRef.current && !peerConnectionsRef.current.has(RELAY_PEER_ID)) {
+      createPeerConnection(RELAY_PEER_ID)
+    }
+  }
+
+  const refreshRecordings = async () => {
+    try {
+      setRecordings(await listRecordings(roomId))
+    } catch (error) {
+      console.error("Error loading recordings:", error)
+    }
+  }
+
+  const closePeerConnection = (listenerId: string) => {
+    pendingPeersRef.current.delete(listenerId)
+    peerConnectionsRef.current.get(listenerId)?.close()
+    peerConnectionsRef.current.delete(listenerId)
+    statsCountersRef.current.delete(listenerId)
+    resetIceRecovery(listenerId)
+  }
+
+  const closeAllPeerConnections = () => {
+    pendingPeersRef.current.clear()
+    peerConnectionsRef.current.forEach((_, peerId) => closePeerConnection(peerId))
+  }
+
+  const resetIceRecovery = (listenerId: string) => {
+    const recovery = iceRecoveryRef.current.get(listenerId)
+    if (recovery?.timer) clearTimeout(recovery.timer)
+    iceRecoveryRef.current.delete(listenerId)
+    setIceRestarts(({ [listenerId]: _, ...rest }) => rest)
+  }
+
+  // Restarts ICE with exponential backoff until the connection recovers, then falls back
+  // to a brand new connection
+  const scheduleIceRestart = (listenerId: string, pc: RTCPeerConnection, minDelay = 0) => {
+    const recovery = iceRecoveryRef.current.get(listenerId) ?? { attempts: 0, timer: null }
+    if (recovery.timer) return
+
+    recovery.timer = setTimeout(() => {
+      recovery.timer = null
+      restartIce(listenerId, pc).catch((error) => {
+        console.error("Error restarting ICE:", error)
+      })
+    }, Math.max(minDelay, backoffDelay(recovery.attempts)))
+    iceRecoveryRef.current.set(listenerId, recovery)
+  }
+
+  const restartIce = async (listenerId: string, pc: RTCPeerConnection) => {
+    const recovery = iceRecoveryRef.current.get(listenerId)
+    if (!recovery || peerConnectionsRef.current.get(listenerId) !== pc) return
+
+    if (pc.iceConnectionState === "connected" || pc.iceConnectionState === "completed") {
+      resetIceRecovery(listenerId)
+      return
+    }
+
+    if (recovery.attempts >= MAX_ICE_RESTARTS) {
+      closePeerConnection(listenerId)
+      if (streamRef.current) {
+        createPeerConnection(listenerId)
+      }
+      return
+    }
+
+    recovery.attempts++
+    setIceRestarts((prev) => ({ ...prev, [listenerId]: recovery.attempts }))
+
+    // TURN credentials may have expired since the connection was set up
+    pc.setConfiguration({ ...pc.getConfiguration(), iceServers: await getIceServers(getClientId()) })
+    const offer = await pc.createOffer({ iceRestart: true })
+    await pc.setLocalDescription(offer)
+    socketRef.current?.emit("offer", { to: listenerId, offer: { type: offer.type, sdp: offer.sdp }, restart: true })
+
+    // Check back later in case this attempt does not get the connection going either
+    scheduleIceRestart(listenerId, pc)
+  }
 
   const createPeerConnection = async (listenerId: string) => {
-    const pc = new RTCPeerConnection({
-      iceServers: [{ urls: "stun:stun.l.google.com:19302" }, { urls: "stun:stun1.l.google.com:19302" }],
-    })
+    // Only the DJ on air sends audio; the others get their listeners when it hands off
+    if (onAirIdRef.current !== socketRef.current?.id) return
 
+    const attempt = {}
+    pendingPeersRef.current.set(listenerId, attempt)
+    const iceServers = await getIceServers(getClientId())
+    // The peer was closed, e.g. the listener left, or a newer call took over while the servers loaded
+    if (pendingPeersRef.current.get(listenerId) !== attempt) return
+    pendingPeersRef.current.delete(listenerId)
+
+    // Replaced synchronously, so two calls can never both end up with a connection
+    closePeerConnection(listenerId)
+    const pc = new RTCPeerConnection({ iceServers })
     peerConnectionsRef.current.set(listenerId, pc)
 
     // Add audio track
@@ -95,11 +701,27 @@ export default function HostPage() {
       if (event.candidate && socketRef.current) {
         socketRef.current.emit("ice-candidate", {
           to: listenerId,
-          candidate: event.candidate,
+          candidate: event.candidate.toJSON(),
         })
       }
     }
 
+    pc.oniceconnectionstatechange = () => {
+      switch (pc.iceConnectionState) {
+        case "connected":
+        case "completed":
+          resetIceRecovery(listenerId)
+          break
+        case "disconnected":
+          // Often recovers by itself, so give it a moment first
+          scheduleIceRestart(listenerId, pc, ICE_DISCONNECTED_TIMEOUT_MS)
+          break
+        case "failed":
+          scheduleIceRestart(listenerId, pc)
+          break
+      }
+    }
+
     // Create and send offer
     const offer = await pc.createOffer()
     await pc.setLocalDescription(offer)
@@ -107,40 +729,122 @@ export default function HostPage() {
     if (socketRef.current) {
       socketRef.current.emit("offer", {
         to: listenerId,
-        offer: offer,
+        offer: { type: offer.type, sdp: offer.sdp },
       })
     }
   }
 
+  // Receives the guest's microphone and mixes it into what we send, like one of our own
+  const connectStageGuest = async (listenerId: string) => {
+    if (!mixerRef.current) {
+      socketRef.current?.emit("leave-stage")
+      return
+    }
+
+    const pc = new RTCPeerConnection({ iceServers: await getIceServers(getClientId()) })
+    stageConnectionRef.current = pc
+    pc.addTransceiver("audio", { direction: "recvonly" })
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        socketRef.current?.emit("ice-candidate", { to: listenerId, candidate: event.candidate.toJSON(), stage: true })
+      }
+    }
+
+    pc.ontrack = ({ track }) => {
+      const mixer = mixerRef.current
+      if (!mixer || stageConnectionRef.current !== pc) return
+
+      // Chrome only passes remote audio on to Web Audio while a media element plays it too
+      const stream = new MediaStream([track])
+      const sink = new Audio()
+      sink.muted = true
+      sink.srcObject = stream
+      sink.play().catch(() => {})
+
+      stageChannelIdRef.current = mixer.addStream("guest", "Guest on stage", stream).channelId
+      setMixerChannels(mixer.channels())
+    }
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === "failed" && stageConnectionRef.current === pc) {
+        socketRef.current?.emit("leave-stage")
+      }
+    }
+
+    const offer = await pc.createOffer()
+    await pc.setLocalDescription(offer)
+    socketRef.current?.emit("offer", { to: listenerId, offer: { type: offer.type, sdp: offer.sdp }, stage: true })
+  }
+
+  const closeStageConnection = () => {
+    stageConnectionRef.current?.close()
+    stageConnectionRef.current = null
+
+    const channelId = stageChannelIdRef.current
+    stageChannelIdRef.current = null
+    if (channelId && mixerRef.current) {
+      mixerRef.current.remove(channelId)
+      setMixerChannels(mixerRef.current.channels())
+    }
+  }
+
+  const inviteToStage = (listenerId: string) => {
+    socketRef.current?.emit("invite-to-stage", { listenerId })
+  }
+
+  const leaveStage = () => {
+    socketRef.current?.emit("leave-stage")
+  }
+
+  const handOff = (djId: string) => {
+    socketRef.current?.emit("hand-off", { djId })
+  }
+
   const startStreaming = async () => {
     try {
       // Request microphone access (which should be your virtual audio cable)
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
-          sampleRate: 44100,
-        },
-      })
+      const microphone = await captureMicrophone()
 
-      streamRef.current = stream
+      // Everything we send is mixed from our inputs and goes through the processing chain, which
+      // passes the audio through untouched until processing is turned on
+      const context = new AudioContext()
+      audioContextRef.current = context
+      await context.resume()
+      const chain = createProcessingChain(context, processing)
+      processingChainRef.current = chain
+      const mixer = createMixer(context, chain.input, () => setMixerChannels(mixer.channels()))
+      mixerRef.current = mixer
+      mixer.setDucking(ducking)
+      mixer.addStream("mic", microphone.label, microphone.stream)
+      setMixerChannels(mixer.channels())
+      listMicrophones()
+        .then(setMicrophones)
+        .catch((error) => console.error("Error listing microphones:", error))
+      const destination = context.createMediaStreamDestination()
+      chain.output.connect(destination)
+      streamRef.current = destination.stream
       setIsStreaming(true)
 
-      // Setup audio analysis for visual feedback
-      audioContextRef.current = new AudioContext()
-      const source = audioContextRef.current.createMediaStreamSource(stream)
-      analyserRef.current = audioContextRef.current.createAnalyser()
+      // Setup audio analysis for visual feedback, metering what listeners hear
+      analyserRef.current = context.createAnalyser()
       analyserRef.current.fftSize = 256
-      source.connect(analyserRef.current)
+      chain.output.connect(analyserRef.current)
 
       // Start audio level monitoring
       monitorAudioLevel()
 
-      // Create peer connections for existing listeners
-      listeners.forEach((listenerId) => {
-        createPeerConnection(listenerId)
-      })
+      // Publish to the relay, or connect to each listener already in the room that we feed
+      if (publishesToRelay() && !sourceRef.current) {
+        createPeerConnection(RELAY_PEER_ID)
+      }
+      if (roomModeRef.current !== "relay") {
+        listeners
+          .filter(({ parentId }) => roomModeRef.current === "mesh" || parentId === HOST_PARENT_ID)
+          .forEach(({ listenerId }) => {
+            createPeerConnection(listenerId)
+          })
+      }
 
       toast({
         title: "Stream started!",
@@ -157,10 +861,21 @@ export default function HostPage() {
   }
 
   const stopStreaming = () => {
+    // Stopped first so the last chunk is saved before the tracks end
+    stopLocalRecording()
+
+    // The guest is only heard through our stream
+    if (stageRef.current) leaveStage()
+    closeStageConnection()
+
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop())
       streamRef.current = null
     }
+    mixerRef.current?.close()
+    mixerRef.current = null
+    setMixerChannels([])
+    processingChainRef.current = null
 
     if (audioContextRef.current) {
       audioContextRef.current.close()
@@ -171,9 +886,7 @@ export default function HostPage() {
       cancelAnimationFrame(animationFrameRef.current)
     }
 
-    // Close all peer connections
-    peerConnectionsRef.current.forEach((pc) => pc.close())
-    peerConnectionsRef.current.clear()
+    closeAllPeerConnections()
 
     setIsStreaming(false)
     setAudioLevel(0)
@@ -184,6 +897,7 @@ export default function HostPage() {
       streamRef.current.getAudioTracks().forEach((track) => {
         track.enabled = isMuted
       })
+      socketRef.current?.emit(isMuted ? "unmute-stream" : "mute-stream")
       setIsMuted(!isMuted)
     }
   }
@@ -199,6 +913,13 @@ export default function HostPage() {
       analyserRef.current.getByteFrequencyData(dataArray)
       const average = dataArray.reduce((a, b) => a + b) / dataArray.length
       setAudioLevel((average / 255) * 100)
+      if (processingChainRef.current) {
+        setGainReduction(processingChainRef.current.reduction())
+      }
+      if (mixerRef.current) {
+        setChannelLevels(mixerRef.current.levels())
+        setIsDucked(mixerRef.current.isDucked())
+      }
 
       animationFrameRef.current = requestAnimationFrame(updateLevel)
     }
@@ -206,16 +927,261 @@ export default function HostPage() {
     updateLevel()
   }
 
+  const removeListener = (listenerId: string, ban: boolean) => {
+    socketRef.current?.emit(ban ? "ban-listener" : "kick-listener", { listenerId })
+  }
+
+  const changeRoomMode = (mode: RoomMode) => {
+    socketRef.current?.emit("set-room-mode", { mode })
+  }
+
+  const refreshLocalTakes = async () => {
+    try {
+      setLocalTakes(await listLocalTakes(roomId))
+    } catch (error) {
+      console.error("Error loading local recordings:", error)
+    }
+  }
+
+  const startRecordingLocally = async () => {
+    if (!streamRef.current || localRecordingRef.current) return
+
+    try {
+      localRecordingRef.current = await startLocalRecording(streamRef.current, roomId)
+      setIsRecordingLocally(true)
+    } catch (error) {
+      console.error("Error starting local recording:", error)
+      toast({
+        title: "Error",
+        description: "Failed to start recording in this browser.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const stopLocalRecording = () => {
+    const recording = localRecordingRef.current
+    if (!recording) return
+
+    localRecordingRef.current = null
+    setIsRecordingLocally(false)
+    recording.stop().then(refreshLocalTakes)
+  }
+
+  const discardTake = async (takeId: string) => {
+    await discardLocalTake(takeId)
+    await refreshLocalTakes()
+  }
+
+  const toggleRecording = () => {
+    socketRef.current?.emit("set-recording", { recording: !recordingRef.current })
+  }
+
+  const addInput = async (kind: "system" | "mic") => {
+    const mixer = mixerRef.current
+    if (!mixer) return
+
+    try {
+      const { stream, label } = kind === "system" ? await captureSystemAudio() : await captureMicrophone(microphoneId)
+      mixer.addStream(kind, label, stream)
+      setMixerChannels(mixer.channels())
+    } catch (error) {
+      console.error("Error adding input:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add the input.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const addFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const mixer = mixerRef.current
+    Array.from(event.target.files ?? []).forEach((file) => mixer?.addFile(file))
+    event.target.value = ""
+    if (mixer) setMixerChannels(mixer.channels())
+  }
+
+  const updateChannel = (channelId: string, update: Partial<Pick<MixerChannel, "volume" | "muted">>) => {
+    mixerRef.current?.update(channelId, update)
+    setMixerChannels(mixerRef.current?.channels() ?? [])
+  }
+
+  // Removing the guest's channel takes the guest off stage
+  const removeChannel = (channelId: string) => {
+    if (channelId === stageChannelIdRef.current) leaveStage()
+    mixerRef.current?.remove(channelId)
+    setMixerChannels(mixerRef.current?.channels() ?? [])
+  }
+
+  const togglePlayback = async (channelId: string) => {
+    try {
+      await mixerRef.current?.togglePlayback(channelId)
+    } catch (error) {
+      console.error("Error playing file:", error)
+    }
+    setMixerChannels(mixerRef.current?.channels() ?? [])
+  }
+
+  const updateDucking = (update: Partial<DuckingSettings>) => {
+    const next = { ...ducking, ...update }
+    setDucking(next)
+    mixerRef.current?.setDucking(next)
+  }
+
+  // Takes effect on the stream right away
+  const updateProcessing = (update: Partial<ProcessingSettings>) => {
+    const next = { ...processing, ...update }
+    setProcessing(next)
+    processingChainRef.current?.update(next)
+    saveProcessingSettings(roomId, next)
+  }
+
+  const savePreset = (event: React.FormEvent) => {
+    event.preventDefault()
+    const name = presetName.trim()
+    if (!name) return
+    setProcessingPresets(saveProcessingPreset(roomId, name, processing))
+    setPresetName("")
+  }
+
+  const updateNowPlaying = (event: React.FormEvent) => {
+    event.preventDefault()
+    const bpm = Number.parseFloat(trackInput.bpm)
+    socketRef.current?.emit("set-now-playing", {
+      track: {
+        title: trackInput.title.trim(),
+        artist: trackInput.artist.trim() || undefined,
+        artworkUrl: trackInput.artworkUrl.trim() || undefined,
+        bpm: bpm > 0 ? bpm : undefined,
+      },
+    })
+  }
+
+  const exportSetlist = async (format: "json" | "csv" | "cue", range?: { start: number; end: number }) => {
+    try {
+      await downloadSetlist(roomId, format, range)
+    } catch (error) {
+      console.error("Error exporting setlist:", error)
+      toast({
+        title: "Error",
+        description: "Failed to export the setlist.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const clearNowPlaying = () => {
+    socketRef.current?.emit("set-now-playing", { track: null })
+  }
+
+  const sendChatMessage = (event: React.FormEvent) => {
+    event.preventDefault()
+    const text = chatInput.trim()
+    if (!text) return
+
+    socketRef.current?.emit("send-chat-message", { text })
+    setChatInput("")
+  }
+
+  const deleteChatMessage = (messageId: string) => {
+    socketRef.current?.emit("delete-chat-message", { messageId })
+  }
+
+  // Playing a request also makes it the current track
+  const updateTrackRequest = (requestId: string, status: UpdateTrackRequestPayload["status"]) => {
+    socketRef.current?.emit("update-track-request", { requestId, status })
+  }
+
+  const showReaction = (emoji: string) => {
+    const reactionId = Math.random()
+    setReactions((current) => [...current, { reactionId, emoji }])
+    setTimeout(() => {
+      setReactions((current) => current.filter((reaction) => reaction.reactionId !== reactionId))
+    }, REACTION_DISPLAY_MS)
+  }
+
+  const saveMaxListeners = (event: React.FormEvent) => {
+    event.preventDefault()
+    const limit = Number.parseInt(maxListenersInput, 10)
+    socketRef.current?.emit("set-max-listeners", { maxListeners: limit > 0 ? limit : null })
+  }
+
+  const guestChannel = mixerChannels.find((channel) => channel.kind === "guest")
+
+  // Listener reports are preferred since only the receiver sees its own jitter and loss
+  const listenerQuality = (listener: ListenerPresence) => {
+    const stats = listener.stats ?? sendStats.get(listener.listenerId)
+    return stats ? connectionQuality(stats) : null
+  }
+
+  const overallQuality = worstQuality(
+    listeners.map(listenerQuality).filter((quality): quality is ConnectionQuality => quality !== null),
+  )
+  const totalSendKbps = Array.from(sendStats.values()).reduce((total, stats) => total + stats.bitrateKbps, 0)
+  const relayStats = sendStats.get(RELAY_PEER_ID)
+  const finishedRecordings = recordings.filter(({ stoppedAt }) => stoppedAt !== null)
+
+  const listenerName = (listenerId: string) => {
+    const index = listeners.findIndex((listener) => listener.listenerId === listenerId)
+    return listeners[index]?.displayName ?? `Listener ${index + 1}`
+  }
+
   const copyRoomLink = () => {
-    const link = `${window.location.origin}/listen/${roomId}`
-    navigator.clipboard.writeText(link)
+    navigator.clipboard.writeText(shareUrl)
     toast({
       title: "Link copied!",
       description: "Share this link with listeners.",
     })
   }
 
-  const shareUrl = `${typeof window !== "undefined" ? window.location.origin : ""}/listen/${roomId}`
+  const generateInviteLink = async () => {
+    try {
+      setInviteLink(await createInviteLink(roomId))
+    } catch (error) {
+      console.error("Error creating invite link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create an invite link.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const generateDjLink = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      setDjLink(await createDjLink(roomId, djLinkName.trim()))
+      setDjLinkName("")
+    } catch (error) {
+      console.error("Error creating DJ link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create a DJ link.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const generateSourcePassword = async () => {
+    try {
+      setSourceSettings(await createSourcePassword(roomId))
+    } catch (error) {
+      console.error("Error creating source password:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create a source password.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const selfId = socketRef.current?.id
+  const self = djs.find((dj) => dj.djId === selfId)
+  const onAir = djs.find((dj) => dj.djId === onAirId)
+
+  const shareUrl =
+    inviteLink?.url ?? `${typeof window !== "undefined" ? window.location.origin : ""}/listen/${roomId}`
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 p-4">
@@ -228,6 +1194,11 @@ export default function HostPage() {
           <Badge variant="outline" className="font-mono text-lg px-3 py-1">
             Room: {roomId}
           </Badge>
+          {reconnectAttempt !== null && (
+            <p className="mt-2 text-sm text-amber-700">
+              Connection to the server lost. Reconnecting{reconnectAttempt > 0 && ` (attempt ${reconnectAttempt})`}...
+            </p>
+          )}
         </div>
 
         <div className="space-y-6">
@@ -239,6 +1210,12 @@ export default function HostPage() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {source && (
+                <p className="text-sm text-gray-600">
+                  Broadcasting from {source.userAgent ?? "DJ software"} since {formatTime(source.connectedAt)}.
+                  Listeners hear it instead of this page until it disconnects.
+                </p>
+              )}
               {!isStreaming ? (
                 <div className="space-y-4">
                   <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
@@ -257,6 +1234,30 @@ export default function HostPage() {
                     <Mic className="h-4 w-4 mr-2" />
                     Start Streaming
                   </Button>
+                  {localTakes.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Recorded in this browser</p>
+                      {localTakes.map((take) => (
+                        <div key={take.takeId} className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium">
+                              {new Date(take.startedAt).toLocaleDateString()} {formatTime(take.startedAt)}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {(take.bytes / 1_000_000).toFixed(1)} MB
+                              {take.stoppedAt === null && " · recovered after the page closed"}
+                            </p>
+                          </div>
+                          <Button onClick={() => downloadLocalTake(take)} variant="ghost" size="sm" title="Download">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button onClick={() => discardTake(take.takeId)} variant="ghost" size="sm" title="Discard">
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-4">
@@ -277,6 +1278,35 @@ export default function HostPage() {
                       {isMuted ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
                     </Button>
                   </div>
+                  {roomMode === "relay" ? (
+                    <p className="text-sm text-gray-600">
+                      Streaming through the server relay
+                      {relayStats && (
+                        <>
+                          : <QualityLabel quality={connectionQuality(relayStats)} /> · sending{" "}
+                          {relayStats.bitrateKbps} kbps
+                        </>
+                      )}
+                      {iceRestarts[RELAY_PEER_ID] && ` · reconnecting (attempt ${iceRestarts[RELAY_PEER_ID]})`}
+                    </p>
+                  ) : (
+                    overallQuality && (
+                      <p className="text-sm text-gray-600">
+                        Connection quality: <QualityLabel quality={overallQuality} /> · sending {totalSendKbps} kbps
+                        to {sendStats.size} listener{sendStats.size === 1 ? "" : "s"}
+                      </p>
+                    )
+                  )}
+                  {canRecordLocally && (
+                    <Button
+                      onClick={isRecordingLocally ? stopLocalRecording : startRecordingLocally}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      <HardDrive className="h-4 w-4 mr-2" />
+                      {isRecordingLocally ? "Stop Recording in This Browser" : "Record in This Browser"}
+                    </Button>
+                  )}
                   <Button onClick={stopStreaming} variant="destructive" className="w-full">
                     Stop Streaming
                   </Button>
@@ -285,22 +1315,663 @@ export default function HostPage() {
             </CardContent>
           </Card>
 
+          {isStreaming && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AudioLines className="h-5 w-5" />
+                  Mixer
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {mixerChannels.length === 0 && (
+                  <p className="text-sm text-gray-600">No inputs. Listeners hear silence.</p>
+                )}
+                {mixerChannels.map((channel) => {
+                  const Icon = channelIcons[channel.kind]
+                  return (
+                    <div key={channel.channelId} className="space-y-1 p-2 bg-gray-50 rounded">
+                      <div className="flex items-center gap-2">
+                        <Icon className="h-4 w-4 text-gray-600" />
+                        <span className="flex-1 min-w-0 text-sm font-medium truncate">{channel.label}</span>
+                        {channel.kind === "file" && (
+                          <Button
+                            onClick={() => togglePlayback(channel.channelId)}
+                            variant="ghost"
+                            size="sm"
+                            title={channel.playing ? "Pause" : "Play"}
+                          >
+                            {channel.playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <Button
+                          onClick={() => updateChannel(channel.channelId, { muted: !channel.muted })}
+                          variant={channel.muted ? "destructive" : "ghost"}
+                          size="sm"
+                          title={channel.muted ? "Unmute" : "Mute"}
+                        >
+                          {channel.muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          onClick={() => removeChannel(channel.channelId)}
+                          variant="ghost"
+                          size="sm"
+                          title="Remove"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <input
+                        type="range"
+                        min={0}
+                        max={MAX_CHANNEL_VOLUME}
+                        step={0.01}
+                        value={channel.volume}
+                        onChange={(e) => updateChannel(channel.channelId, { volume: Number(e.target.value) })}
+                        className="w-full"
+                      />
+                      <div className="bg-gray-200 rounded-full h-1">
+                        <div
+                          className="bg-green-500 h-1 rounded-full transition-all duration-100"
+                          style={{ width: `${(channelLevels[channel.channelId] ?? 0) * 100}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  )
+                })}
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={() => addInput("system")} variant="outline" size="sm">
+                    <MonitorSpeaker className="h-4 w-4 mr-2" />
+                    System Audio
+                  </Button>
+                  <label
+                    className="inline-flex items-center px-3 border rounded text-sm cursor-pointer hover:bg-gray-50"
+                  >
+                    <FileAudio className="h-4 w-4 mr-2" />
+                    Audio File
+                    <input type="file" accept="audio/*" multiple onChange={addFile} className="hidden" />
+                  </label>
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    value={microphoneId}
+                    onChange={(e) => setMicrophoneId(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border rounded text-sm"
+                  >
+                    <option value="">Default microphone</option>
+                    {microphones.map((microphone) => (
+                      <option key={microphone.deviceId} value={microphone.deviceId}>
+                        {microphone.label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button onClick={() => addInput("mic")} variant="outline">
+                    <Mic className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <p className="flex-1 text-sm text-gray-600">
+                      Ducking: turn music down while a microphone picks up talking
+                      {ducking.enabled && isDucked && " (ducking now)"}
+                    </p>
+                    <Button
+                      onClick={() => updateDucking({ enabled: !ducking.enabled })}
+                      variant={ducking.enabled ? "default" : "outline"}
+                      size="sm"
+                    >
+                      {ducking.enabled ? "On" : "Off"}
+                    </Button>
+                  </div>
+                  {ducking.enabled && (
+                    <label className="grid grid-cols-[7rem_1fr_4rem] items-center gap-2 text-sm">
+                      <span className="text-gray-600">Duck by</span>
+                      <input
+                        type="range"
+                        min={-30}
+                        max={-3}
+                        step={1}
+                        value={ducking.depthDb}
+                        onChange={(e) => updateDucking({ depthDb: Number(e.target.value) })}
+                      />
+                      <span className="text-right font-mono text-xs">{ducking.depthDb} dB</span>
+                    </label>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                <Users className="h-5 w-5" />
-                Listeners ({listeners.length})
+                <SlidersHorizontal className="h-5 w-5" />
+                Audio Processing
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <p className="flex-1 text-sm text-gray-600">
+                  {processing.enabled
+                    ? "Listeners hear your audio after the controls below."
+                    : "Listeners hear your audio exactly as it is captured."}
+                </p>
+                <Button
+                  onClick={() => updateProcessing({ enabled: !processing.enabled })}
+                  variant={processing.enabled ? "default" : "outline"}
+                  size="sm"
+                >
+                  {processing.enabled ? "On" : "Off"}
+                </Button>
+              </div>
+              <div className={`space-y-2 ${processing.enabled ? "" : "opacity-50"}`}>
+                <ProcessingSlider
+                  label="Input gain"
+                  setting="inputGainDb"
+                  unit=" dB"
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                <ProcessingSlider
+                  label="Low"
+                  setting="lowDb"
+                  unit=" dB"
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                <ProcessingSlider
+                  label="Mid"
+                  setting="midDb"
+                  unit=" dB"
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                <ProcessingSlider
+                  label="High"
+                  setting="highDb"
+                  unit=" dB"
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                <ProcessingSlider
+                  label="Threshold"
+                  setting="compressorThresholdDb"
+                  unit=" dB"
+                  step={1}
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                <ProcessingSlider
+                  label="Ratio"
+                  setting="compressorRatio"
+                  unit=":1"
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                <ProcessingSlider
+                  label="Makeup gain"
+                  setting="makeupGainDb"
+                  unit=" dB"
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                <ProcessingSlider
+                  label="Limiter ceiling"
+                  setting="limiterCeilingDb"
+                  unit=" dB"
+                  step={0.1}
+                  settings={processing}
+                  onChange={updateProcessing}
+                />
+                {isStreaming && processing.enabled && (
+                  <p className="text-xs text-gray-500">
+                    Compressor {gainReduction.compressor.toFixed(1)} dB · limiter {gainReduction.limiter.toFixed(1)} dB
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                {Object.keys(processingPresets).length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(processingPresets).map(([name, settings]) => (
+                      <div key={name} className="flex items-center rounded border">
+                        <Button onClick={() => updateProcessing(settings)} variant="ghost" size="sm">
+                          {name}
+                        </Button>
+                        <Button
+                          onClick={() => setProcessingPresets(deleteProcessingPreset(roomId, name))}
+                          variant="ghost"
+                          size="sm"
+                          title="Delete preset"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <form onSubmit={savePreset} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Preset name"
+                    maxLength={40}
+                    className="flex-1 px-3 py-2 border rounded text-sm"
+                  />
+                  <Button type="submit" variant="outline" disabled={!presetName.trim()}>
+                    Save Preset
+                  </Button>
+                </form>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Music className="h-5 w-5" />
+                Now Playing
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {nowPlaying ? (
+                <p className="text-sm text-gray-600">
+                  Listeners see <span className="font-medium">{nowPlaying.title}</span>
+                  {nowPlaying.artist && ` by ${nowPlaying.artist}`} since {formatTime(nowPlaying.startedAt)}.
+                </p>
+              ) : (
+                <p className="text-sm text-gray-600">Tell listeners which track is playing.</p>
+              )}
+              <form onSubmit={updateNowPlaying} className="space-y-2">
+                <input
+                  type="text"
+                  value={trackInput.title}
+                  onChange={(e) => setTrackInput({ ...trackInput, title: e.target.value })}
+                  placeholder="Title"
+                  maxLength={200}
+                  required
+                  className="w-full px-3 py-2 border rounded text-sm"
+                />
+                <input
+                  type="text"
+                  value={trackInput.artist}
+                  onChange={(e) => setTrackInput({ ...trackInput, artist: e.target.value })}
+                  placeholder="Artist"
+                  maxLength={200}
+                  className="w-full px-3 py-2 border rounded text-sm"
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="url"
+                    value={trackInput.artworkUrl}
+                    onChange={(e) => setTrackInput({ ...trackInput, artworkUrl: e.target.value })}
+                    placeholder="Artwork URL"
+                    className="flex-1 px-3 py-2 border rounded text-sm"
+                  />
+                  <input
+                    type="number"
+                    min={20}
+                    max={400}
+                    step="any"
+                    value={trackInput.bpm}
+                    onChange={(e) => setTrackInput({ ...trackInput, bpm: e.target.value })}
+                    placeholder="BPM"
+                    className="w-24 px-3 py-2 border rounded text-sm"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" variant="outline" className="flex-1">
+                    Update
+                  </Button>
+                  {nowPlaying && (
+                    <Button type="button" onClick={clearNowPlaying} variant="ghost">
+                      Clear
+                    </Button>
+                  )}
+                </div>
+              </form>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <ListMusic className="h-4 w-4" />
+                <span className="flex-1">Setlist</span>
+                <Button onClick={() => exportSetlist("csv")} variant="ghost" size="sm">
+                  CSV
+                </Button>
+                <Button onClick={() => exportSetlist("cue")} variant="ghost" size="sm">
+                  CUE
+                </Button>
+                <Button onClick={() => exportSetlist("json")} variant="ghost" size="sm">
+                  JSON
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5" />
+                Chat
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="relative">
+                <div ref={chatScrollRef} className="h-64 overflow-y-auto space-y-2 text-sm">
+                  {chatMessages.length === 0 && <p className="text-gray-500">No messages yet</p>}
+                  {chatMessages.map((message) => (
+                    <div key={message.messageId} className="flex items-start gap-2">
+                      <p className="flex-1 break-words">
+                        <span className={`font-medium ${message.role === "host" ? "text-red-600" : ""}`}>
+                          {message.role === "host" ? "You" : message.displayName || "Listener"}:
+                        </span>{" "}
+                        {message.text}
+                      </p>
+                      <span className="text-xs text-gray-500">{formatTime(message.sentAt)}</span>
+                      <Button
+                        onClick={() => deleteChatMessage(message.messageId)}
+                        variant="ghost"
+                        size="sm"
+                        title="Delete message"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <div className="absolute bottom-0 right-0 flex gap-1 text-2xl pointer-events-none">
+                  {reactions.map(({ reactionId, emoji }) => (
+                    <span key={reactionId} className="animate-bounce">
+                      {emoji}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-1">
+                {CHAT_REACTIONS.map((emoji) => (
+                  <Button
+                    key={emoji}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => socketRef.current?.emit("send-reaction", { emoji })}
+                  >
+                    {emoji}
+                  </Button>
+                ))}
+              </div>
+
+              <form onSubmit={sendChatMessage} className="flex gap-2">
+                <input
+                  type="text"
+                  value={chatInput}
+                  onChange={(e) => setChatInput(e.target.value)}
+                  maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                  placeholder="Message your listeners"
+                  className="flex-1 px-3 py-2 border rounded text-sm"
+                />
+                <Button type="submit" variant="outline" disabled={!chatInput.trim()}>
+                  Send
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListOrdered className="h-5 w-5" />
+                Requests ({trackRequests.length})
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {trackRequests.length === 0 ? (
+                <p className="text-sm text-gray-500">Listeners&apos; track requests show up here, most voted first.</p>
+              ) : (
+                <div className="space-y-2">
+                  {trackRequests.map((request) => (
+                    <div key={request.requestId} className="flex items-center gap-2 p-2 bg-gray-50 rounded text-sm">
+                      <span className="flex items-center gap-1 w-10 text-gray-600" title="Votes">
+                        <ThumbsUp className="h-3 w-3" />
+                        {request.votes}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">
+                          {request.title}
+                          {request.artist && <span className="font-normal text-gray-600"> by {request.artist}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {request.status === "accepted" && <span className="text-green-600">Accepted · </span>}
+                          {request.requestedBy || "Listener"} at {formatTime(request.requestedAt)}
+                        </p>
+                      </div>
+                      {request.status === "pending" && (
+                        <Button
+                          onClick={() => updateTrackRequest(request.requestId, "accepted")}
+                          variant="ghost"
+                          size="sm"
+                          title="Accept"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => updateTrackRequest(request.requestId, "played")}
+                        variant="ghost"
+                        size="sm"
+                        title="Mark as played"
+                      >
+                        <Play className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        onClick={() => updateTrackRequest(request.requestId, "rejected")}
+                        variant="ghost"
+                        size="sm"
+                        title="Reject"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {recordingEnabled && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Circle className="h-5 w-5" />
+                  Recording
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {recording ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse"></div>
+                    <span className="text-sm font-medium">Recording since {formatTime(recording.startedAt)}</span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    Record your set on the server and download it afterwards. Recordings are deleted after a while.
+                  </p>
+                )}
+                <Button onClick={toggleRecording} variant={recording ? "destructive" : "outline"} className="w-full">
+                  <Circle className="h-4 w-4 mr-2" />
+                  {recording ? "Stop Recording" : "Start Recording"}
+                </Button>
+                {finishedRecordings.length > 0 && (
+                  <div className="space-y-2">
+                    {finishedRecordings.map((archived) => (
+                      <div key={archived.recordingId} className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium">
+                            {new Date(archived.startedAt).toLocaleDateString()} {formatTime(archived.startedAt)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {describeRecording(archived)}
+                            {archived.expiresAt && ` · deleted ${new Date(archived.expiresAt).toLocaleString()}`}
+                          </p>
+                        </div>
+                        <Button
+                          onClick={() =>
+                            exportSetlist("cue", { start: archived.startedAt, end: archived.stoppedAt ?? Date.now() })
+                          }
+                          variant="ghost"
+                          size="sm"
+                          title="Tracklist (CUE sheet)"
+                        >
+                          <ListMusic className="h-4 w-4" />
+                        </Button>
+                        <a
+                          href={archived.downloadPath}
+                          download
+                          title="Download"
+                          className="p-2 rounded text-gray-600 hover:bg-gray-100"
+                        >
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Listeners ({listeners.length}
+                {maxListeners !== null && ` / ${maxListeners}`})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => changeRoomMode("mesh")}
+                    variant={roomMode === "mesh" ? "default" : "outline"}
+                    className="flex-1"
+                  >
+                    Direct
+                  </Button>
+                  <Button
+                    onClick={() => changeRoomMode("cascade")}
+                    variant={roomMode === "cascade" ? "default" : "outline"}
+                    className="flex-1"
+                  >
+                    Cascade
+                  </Button>
+                  {relayAvailable && (
+                    <Button
+                      onClick={() => changeRoomMode("relay")}
+                      variant={roomMode === "relay" ? "default" : "outline"}
+                      className="flex-1"
+                    >
+                      Server Relay
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {roomMode === "relay"
+                    ? "You send one stream to the server, which forwards it to every listener."
+                    : roomMode === "cascade"
+                      ? "You send streams to a few listeners, and listeners on good connections pass the audio on to others."
+                      : "You send a separate stream to every listener. Switch modes for large audiences."}
+                </p>
+              </div>
+              <form onSubmit={saveMaxListeners} className="flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={maxListenersInput}
+                  onChange={(e) => setMaxListenersInput(e.target.value)}
+                  placeholder="No listener limit"
+                  className="flex-1 px-3 py-2 border rounded text-sm"
+                />
+                <Button type="submit" variant="outline">
+                  Set Limit
+                </Button>
+              </form>
+              {httpListeners > 0 && (
+                <p className="text-sm text-gray-600">
+                  {httpListeners} more listening over the HTTP stream
+                  {!isStreaming && ", waiting for you to start streaming"}
+                </p>
+              )}
               {listeners.length === 0 ? (
                 <p className="text-gray-500 text-center py-4">No listeners yet</p>
               ) : (
                 <div className="space-y-2">
-                  {listeners.map((listenerId, index) => (
-                    <div key={listenerId} className="flex items-center gap-2 p-2 bg-gray-50 rounded">
-                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                      <span className="text-sm">Listener {index + 1}</span>
+                  {listeners.map((listener, index) => (
+                    <div key={listener.listenerId} className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                      <div className={`w-2 h-2 rounded-full ${connectionStateColors[listener.connectionState]}`}></div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {listener.displayName ?? `Listener ${index + 1}`}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">{describeListener(listener)}</p>
+                        {roomMode === "cascade" && listener.parentId && listener.parentId !== HOST_PARENT_ID && (
+                          <p className="text-xs text-gray-500 truncate">via {listenerName(listener.parentId)}</p>
+                        )}
+                        {iceRestarts[listener.listenerId] && (
+                          <p className="text-xs text-amber-700">
+                            Restoring audio connection (attempt {iceRestarts[listener.listenerId]})...
+                          </p>
+                        )}
+                      </div>
+                      <QualityLabel quality={listenerQuality(listener)} className="text-xs" />
+                      {stage?.listenerId === listener.listenerId ? (
+                        <>
+                          <Badge variant={stage.status === "live" ? "destructive" : "outline"}>
+                            {stage.status === "live" ? "On stage" : "Invited"}
+                          </Badge>
+                          {guestChannel && (
+                            <Button
+                              onClick={() => updateChannel(guestChannel.channelId, { muted: !guestChannel.muted })}
+                              variant={guestChannel.muted ? "destructive" : "ghost"}
+                              size="sm"
+                              title={guestChannel.muted ? "Unmute guest" : "Mute guest"}
+                            >
+                              {guestChannel.muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                            </Button>
+                          )}
+                          <Button onClick={leaveStage} variant="ghost" size="sm" title="Remove from stage">
+                            <MicOff className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        isStreaming &&
+                        !stage &&
+                        !listener.disconnectedAt && (
+                          <Button
+                            onClick={() => inviteToStage(listener.listenerId)}
+                            variant="ghost"
+                            size="sm"
+                            title="Invite on stage"
+                          >
+                            <MicVocal className="h-4 w-4" />
+                          </Button>
+                        )
+                      )}
+                      <Button
+                        onClick={() => removeListener(listener.listenerId, false)}
+                        variant="ghost"
+                        size="sm"
+                        title="Kick"
+                      >
+                        <UserX className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        onClick={() => removeListener(listener.listenerId, true)}
+                        variant="ghost"
+                        size="sm"
+                        title="Ban"
+                      >
+                        <Ban className="h-4 w-4 text-red-600" />
+                      </Button>
                     </div>
                   ))}
                 </div>
@@ -308,6 +1979,115 @@ export default function HostPage() {
             </CardContent>
           </Card>
 
+          {icecastPort !== null && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Disc3 className="h-5 w-5" />
+                  Broadcast from DJ Software
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Mixxx, butt and other software that streams to Icecast can feed this room directly. Choose
+                  Icecast 2 as the server type and Ogg/Opus or MP3 as the format.
+                </p>
+                {sourceSettings && (
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-gray-500">Host</dt>
+                    <dd className="font-mono">{window.location.hostname}</dd>
+                    <dt className="text-gray-500">Port</dt>
+                    <dd className="font-mono">{sourceSettings.port}</dd>
+                    <dt className="text-gray-500">Mount</dt>
+                    <dd className="font-mono">{sourceSettings.mount}</dd>
+                    <dt className="text-gray-500">User</dt>
+                    <dd className="font-mono">{sourceSettings.username}</dd>
+                    <dt className="text-gray-500">Password</dt>
+                    <dd className="font-mono break-all">{sourceSettings.password}</dd>
+                  </dl>
+                )}
+                <Button onClick={generateSourcePassword} variant="outline" className="w-full">
+                  {sourceSettings ? "Create New Password" : "Show Connection Settings"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {(djs.length > 1 || self?.isOwner) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Headphones className="h-5 w-5" />
+                  DJs
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {onAirId !== selfId && (
+                  <p className="text-sm text-gray-600">
+                    {onAir
+                      ? `You're standing by while ${djName(onAir)} is on air. Start your stream to get ready: ` +
+                        "listeners switch over to you when they hand off."
+                      : "Nobody is on air. Take over to bring the listeners to your stream."}
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {djs.map((dj) => (
+                    <div key={dj.djId} className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                      <span className="flex-1 text-sm font-medium">
+                        {djName(dj)}
+                        {dj.djId === selfId && " (you)"}
+                      </span>
+                      {dj.djId === onAirId && <Badge>On Air</Badge>}
+                      {onAirId === selfId && dj.djId !== selfId && (
+                        <Button size="sm" variant="outline" onClick={() => handOff(dj.djId)}>
+                          <ArrowRightLeft className="h-4 w-4 mr-1" />
+                          Hand Off
+                        </Button>
+                      )}
+                      {!onAirId && dj.djId === selfId && (
+                        <Button size="sm" onClick={() => handOff(dj.djId)}>
+                          Take Over
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {self?.isOwner && (
+                  <form onSubmit={generateDjLink} className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Invite another DJ for a back-to-back set. They stand by until you hand off to them.
+                    </p>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={djLinkName}
+                        onChange={(e) => setDjLinkName(e.target.value)}
+                        maxLength={40}
+                        placeholder="DJ name"
+                        className="flex-1 px-3 py-2 border rounded text-sm"
+                      />
+                      <Button type="submit" variant="outline" disabled={!djLinkName.trim()}>
+                        <Link className="h-4 w-4 mr-2" />
+                        Create DJ Link
+                      </Button>
+                    </div>
+                    {djLink && (
+                      <div className="space-y-1">
+                        <input
+                          type="text"
+                          value={djLink.url}
+                          readOnly
+                          className="w-full px-3 py-2 border rounded text-sm bg-gray-50"
+                        />
+                        <p className="text-xs text-gray-500">Expires {djLink.expiresAt.toLocaleString()}.</p>
+                      </div>
+                    )}
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Share Stream</CardTitle>
@@ -324,7 +2104,20 @@ export default function HostPage() {
                   <Copy className="h-4 w-4" />
                 </Button>
               </div>
-              <p className="text-sm text-gray-600">Share this link with people who want to listen to your stream.</p>
+              {isPrivate ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">
+                    This room is private. Listeners need the passcode or an invite link
+                    {inviteLink && ` (this one expires ${inviteLink.expiresAt.toLocaleString()})`}.
+                  </p>
+                  <Button onClick={generateInviteLink} variant="outline" className="w-full">
+                    <Link className="h-4 w-4 mr-2" />
+                    {inviteLink ? "Create New Invite Link" : "Create Invite Link"}
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">Share this link with people who want to listen to your stream.</p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -5,9 +5,102 @@ import { useParams, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Volume2, VolumeX, Radio, Loader2 } from "lucide-react"
+import {
+  Volume2,
+  VolumeX,
+  Radio,
+  Loader2,
+  Lock,
+  Music,
+  MessageSquare,
+  ListOrdered,
+  ThumbsUp,
+  Mic,
+  MicOff,
+  MicVocal,
+  CalendarClock,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { io, type Socket } from "socket.io-client"
+import {
+  CHAT_REACTIONS,
+  MAX_CHAT_MESSAGE_LENGTH,
+  type ChatMessage,
+  type ClientToServerEvents,
+  type ConnectionStats,
+  type PlayedTrack,
+  type ServerToClientEvents,
+  type SessionDescription,
+  type ShowInfo,
+  type StagePresence,
+  type TrackRequest,
+  type TrackRequestStatus,
+} from "@/lib/signaling"
+import {
+  getClientId,
+  getClientInfo,
+  getDisplayName,
+  getRelayCapacity,
+  getSessionId,
+  resetSessionId,
+  saveDisplayName,
+} from "@/lib/client-id"
+import { getIceServers } from "@/lib/ice"
+import { backoffDelay, socketOptions } from "@/lib/reconnect"
+import {
+  connectionQuality,
+  describeStats,
+  samplePeerStats,
+  STATS_INTERVAL_MS,
+  type ConnectionQuality,
+  type StatsCounters,
+} from "@/lib/peer-stats"
+
+const qualityColors: Record<ConnectionQuality, string> = {
+  good: "text-green-600",
+  fair: "text-amber-600",
+  poor: "text-red-600",
+}
+
+// How long a reaction floats over the chat
+const REACTION_DISPLAY_MS = 3000
+
+const requestOutcomes: Record<Exclude<TrackRequestStatus, "pending">, string> = {
+  accepted: "The host will play",
+  rejected: "The host passed on",
+  played: "Now playing",
+}
+
+// D days H:MM:SS until the show starts
+function formatCountdown(ms: number) {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  const days = Math.floor(seconds / 86400)
+  const time = [Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60, seconds % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":")
+  return days > 0 ? `${days}d ${time}` : time
+}
+
+// In the listener's own time zone, e.g. "Friday, October 23, 9:00 PM – 11:00 PM"
+function formatShowTime({ startsAt, endsAt }: ShowInfo) {
+  const day = new Date(startsAt).toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" })
+  const time = (ms: number) => new Date(ms).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+  return `${day}, ${time(startsAt)} – ${time(endsAt)}`
+}
+
+// Shows the track on the lock screen and in the system's media controls
+function updateMediaSession(track: PlayedTrack | null, roomId: string) {
+  if (!("mediaSession" in navigator)) return
+
+  navigator.mediaSession.metadata = track
+    ? new MediaMetadata({
+        title: track.title,
+        artist: track.artist ?? "",
+        album: `Room ${roomId}`,
+        artwork: track.artworkUrl ? [{ src: track.artworkUrl }] : [],
+      })
+    : null
+}
 
 export default function ListenPage() {
   const params = useParams()
@@ -18,11 +111,58 @@ export default function ListenPage() {
   const [isConnected, setIsConnected] = useState(false)
   const [isPlaying, setIsPlaying] = useState(false)
   const [isMuted, setIsMuted] = useState(false)
-  const [connectionStatus, setConnectionStatus] = useState<"connecting" | "connected" | "disconnected">("connecting")
+  const [connectionStatus, setConnectionStatus] = useState<
+    "connecting" | "connected" | "reconnecting" | "disconnected" | "locked" | "removed"
+  >("connecting")
+  const [reconnectAttempt, setReconnectAttempt] = useState(0)
+  // The audio connection failed and is waiting for the host to restart it
+  const [audioRecovering, setAudioRecovering] = useState(false)
+  const [passcode, setPasscode] = useState("")
+  const [accessError, setAccessError] = useState<string | null>(null)
+  const [removalMessage, setRemovalMessage] = useState<string | null>(null)
+  const [displayName, setDisplayName] = useState("")
+  const [stats, setStats] = useState<ConnectionStats | null>(null)
+  // Playing the server's HTTP stream because WebRTC could not connect
+  const [httpFallback, setHttpFallback] = useState(false)
+  const [nowPlaying, setNowPlaying] = useState<PlayedTrack | null>(null)
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [chatInput, setChatInput] = useState("")
+  const [reactions, setReactions] = useState<{ reactionId: number; emoji: string }[]>([])
+  const [trackRequests, setTrackRequests] = useState<TrackRequest[]>([])
+  const [requestInput, setRequestInput] = useState({ title: "", artist: "" })
+  // Requests this tab voted for, so their buttons can be disabled
+  const [votedRequestIds, setVotedRequestIds] = useState<Set<string>>(new Set())
+  // Only set while the host has invited us, or we are on stage
+  const [stage, setStage] = useState<StagePresence | null>(null)
+  const [stageMuted, setStageMuted] = useState(false)
+  // The show the room was scheduled for, and the clock its countdown runs on
+  const [show, setShow] = useState<ShowInfo | null>(null)
+  const [now, setNow] = useState(() => Date.now())
 
-  const socketRef = useRef<Socket | null>(null)
+  const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null)
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null)
+  // The latest offer still loading ICE servers; a newer offer or leaving the room makes it give up
+  const pendingOfferRef = useRef<object | null>(null)
   const audioRef = useRef<HTMLAudioElement>(null)
+  // Credentials for private rooms, resent whenever the socket (re)joins
+  const passcodeRef = useRef<string | undefined>(undefined)
+  const inviteRef = useRef<string | undefined>(undefined)
+  // Set once the host removes us or the room turns us away, so a later disconnect keeps the reason on screen
+  const removedRef = useRef(false)
+  // Socket ID of the host that sent the current offer; it changes when the host reconnects
+  const hostIdRef = useRef<string | null>(null)
+  const rejoinAttemptsRef = useRef(0)
+  const rejoinTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Cascade rooms: listeners the server asked us to forward the audio to, by socket ID
+  const childConnectionsRef = useRef(new Map<string, RTCPeerConnection>())
+  const upstreamTrackRef = useRef<MediaStreamTrack | null>(null)
+  const forwardStreamRef = useRef<MediaStream | null>(null)
+  const remoteStreamRef = useRef<MediaStream | null>(null)
+  const httpFallbackRef = useRef(false)
+  const chatScrollRef = useRef<HTMLDivElement>(null)
+  // Our microphone while on stage, and the connection that sends it to the host
+  const stageMicrophoneRef = useRef<MediaStream | null>(null)
+  const stageConnectionRef = useRef<RTCPeerConnection | null>(null)
 
   useEffect(() => {
     if (!roomId) {
@@ -30,60 +170,315 @@ export default function ListenPage() {
       return
     }
 
+    inviteRef.current = new URLSearchParams(window.location.search).get("invite") ?? undefined
+    setDisplayName(getDisplayName())
+
+    // Loaded up front so answering the host's offer does not wait on it
+    getIceServers(getClientId())
+
     // Initialize Socket.io connection
-    socketRef.current = io("/api/socket", {
-      query: { roomId, role: "listener" },
-    })
+    socketRef.current = io(socketOptions)
 
     const socket = socketRef.current
 
+    // Also runs after every automatic reconnect; the session ID keeps our roster entry
     socket.on("connect", () => {
+      joinRoom()
+    })
+
+    socket.io.on("reconnect_attempt", (attempt) => {
+      setReconnectAttempt(attempt)
+    })
+
+    socket.on("room-joined", ({ show }) => {
+      setShow(show ?? null)
+      setReconnectAttempt(0)
       setConnectionStatus("connected")
       setIsConnected(true)
+      setAccessError(null)
+
+      // Browsers and players without WebRTC can only use the HTTP stream
+      if (typeof RTCPeerConnection === "undefined") {
+        startHttpFallback()
+      }
+    })
+
+    socket.on("error", ({ code, message }) => {
+      // This tab is a duplicate of one that is still listening, so it joins as a listener of its own
+      if (code === "session-in-use") {
+        resetSessionId()
+        joinRoom()
+        return
+      }
+
+      // Private room: ask for the passcode instead of failing
+      if (code === "passcode-required" || code === "invalid-passcode" || code === "invalid-invite") {
+        inviteRef.current = undefined
+        setConnectionStatus("locked")
+        setAccessError(code === "passcode-required" ? null : message)
+        return
+      }
+
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      })
     })
 
-    socket.on("disconnect", () => {
-      setConnectionStatus("disconnected")
+    socket.on("removed-from-room", ({ message }) => {
+      removedRef.current = true
+      closeStage()
+      pendingOfferRef.current = null
+      peerConnectionRef.current?.close()
+      peerConnectionRef.current = null
+      closeChildren()
+      remoteStreamRef.current = null
+      stopHttpFallback()
+      setRemovalMessage(message)
+      setConnectionStatus("removed")
       setIsConnected(false)
       setIsPlaying(false)
     })
 
-    socket.on("offer", async ({ from, offer }) => {
-      await handleOffer(from, offer)
+    socket.on("disconnect", (reason) => {
+      // The server takes us off stage when our socket goes
+      closeStage()
+      if (removedRef.current) return
+      setIsConnected(false)
+
+      // Socket.IO retries anything but a deliberate disconnect by the server. Audio that is
+      // already flowing keeps playing meanwhile.
+      if (reason === "io server disconnect") {
+        setConnectionStatus("disconnected")
+        setIsPlaying(false)
+      } else {
+        setConnectionStatus("reconnecting")
+      }
+    })
+
+    socket.on("offer", async ({ from, offer, restart, stage }) => {
+      if (stage) {
+        await handleStageOffer(from, offer)
+      } else {
+        await handleOffer(from, offer, restart)
+      }
+    })
+
+    // Answers only come from listeners we forward to; the host or our parent sends offers
+    socket.on("answer", async ({ from, answer }) => {
+      await childConnectionsRef.current.get(from)?.setRemoteDescription(new RTCSessionDescription(answer))
     })
 
-    socket.on("ice-candidate", async ({ from, candidate }) => {
-      if (peerConnectionRef.current && candidate) {
-        await peerConnectionRef.current.addIceCandidate(new RTCIceCandidate(candidate))
+    socket.on("ice-candidate", async ({ from, candidate, stage }) => {
+      const pc = stage
+        ? stageConnectionRef.current
+        : (childConnectionsRef.current.get(from) ?? peerConnectionRef.current)
+      if (pc && candidate) {
+        await pc.addIceCandidate(new RTCIceCandidate(candidate))
       }
     })
 
-    socket.on("host-disconnected", () => {
+    socket.on("child-assigned", async ({ listenerId }) => {
+      await connectChild(listenerId)
+    })
+
+    socket.on("child-removed", ({ listenerId }) => {
+      closeChild(listenerId)
+    })
+
+    socket.on("now-playing-updated", ({ track }) => {
+      setNowPlaying(track)
+      updateMediaSession(track, roomId)
+    })
+
+    socket.on("chat-history", ({ messages }) => {
+      setChatMessages(messages)
+    })
+
+    socket.on("chat-message", ({ message }) => {
+      setChatMessages((messages) => [...messages, message])
+    })
+
+    socket.on("chat-message-deleted", ({ messageId }) => {
+      setChatMessages((messages) => messages.filter((message) => message.messageId !== messageId))
+    })
+
+    socket.on("reaction", ({ emoji }) => {
+      showReaction(emoji)
+    })
+
+    socket.on("track-requests-updated", ({ requests }) => {
+      setTrackRequests(requests)
+    })
+
+    socket.on("track-request-updated", ({ request }) => {
+      if (request.status === "pending") return
+      const track = `"${request.title}"${request.artist ? ` by ${request.artist}` : ""}`
+      toast({
+        title: "Track request",
+        description: `${requestOutcomes[request.status]} ${track}`,
+      })
+    })
+
+    socket.on("stage-updated", ({ stage }) => {
+      const mine = stage?.listenerId === socket.id ? stage : null
+      setStage(mine)
+      if (!mine) closeStage()
+    })
+
+    socket.on("host-disconnected", ({ reclaimableUntil }) => {
       setIsPlaying(false)
+      const minutes = Math.max(1, Math.round((reclaimableUntil - Date.now()) / 60000))
       toast({
         title: "Host disconnected",
-        description: "The stream has ended.",
+        description: `The stream will resume if the host reconnects within ${minutes} minute${minutes === 1 ? "" : "s"}.`,
         variant: "destructive",
       })
     })
 
+    // Sample receive quality for the indicator and report it to the host's roster
+    let lastCounters: StatsCounters | null = null
+    const statsTimer = setInterval(async () => {
+      const pc = peerConnectionRef.current
+      if (!pc || pc.connectionState !== "connected") {
+        lastCounters = null
+        setStats(null)
+        return
+      }
+
+      const { counters, stats } = await samplePeerStats(pc, "inbound", lastCounters)
+      lastCounters = counters
+      if (stats) {
+        setStats(stats)
+        socket.emit("presence-update", { stats })
+      }
+    }, STATS_INTERVAL_MS)
+
     return () => {
+      clearInterval(statsTimer)
+      if (rejoinTimerRef.current) {
+        clearTimeout(rejoinTimerRef.current)
+      }
+      pendingOfferRef.current = null
       if (peerConnectionRef.current) {
         peerConnectionRef.current.close()
       }
+      closeChildren()
+      closeStage()
+      updateMediaSession(null, roomId)
       socket.disconnect()
     }
   }, [roomId, router, toast])
 
-  const handleOffer = async (hostId: string, offer: RTCSessionDescriptionInit) => {
-    const pc = new RTCPeerConnection({
-      iceServers: [{ urls: "stun:stun.l.google.com:19302" }, { urls: "stun:stun1.l.google.com:19302" }],
+  // Keep the newest chat message in view
+  useEffect(() => {
+    chatScrollRef.current?.scrollTo({ top: chatScrollRef.current.scrollHeight })
+  }, [chatMessages])
+
+  // Tick the countdown every second until the show starts
+  const showStartsAt = show?.startsAt
+  useEffect(() => {
+    setNow(Date.now())
+    if (!showStartsAt || showStartsAt <= Date.now()) return
+
+    const timer = setInterval(() => {
+      setNow(Date.now())
+      if (Date.now() >= showStartsAt) clearInterval(timer)
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [showStartsAt])
+
+  const joinRoom = () => {
+    socketRef.current?.emit("join-room", {
+      roomId,
+      role: "listener",
+      clientId: getClientId(),
+      sessionId: getSessionId(),
+      displayName: getDisplayName(),
+      client: getClientInfo(),
+      relayCapacity: getRelayCapacity(),
+      passcode: passcodeRef.current,
+      invite: inviteRef.current,
     })
+  }
+
+  // The host restarts ICE on failed connections. If that does not bring the audio back,
+  // announce ourselves again so the host starts over with a new connection.
+  const scheduleRejoin = () => {
+    if (rejoinTimerRef.current) return
+
+    rejoinTimerRef.current = setTimeout(() => {
+      rejoinTimerRef.current = null
+      if (peerConnectionRef.current?.connectionState === "connected") return
+
+      rejoinAttemptsRef.current++
+      joinRoom()
+      scheduleRejoin()
+    }, backoffDelay(rejoinAttemptsRef.current, 15_000, 120_000))
+  }
+
+  const stopRejoining = () => {
+    if (rejoinTimerRef.current) {
+      clearTimeout(rejoinTimerRef.current)
+      rejoinTimerRef.current = null
+    }
+    rejoinAttemptsRef.current = 0
+    setAudioRecovering(false)
+  }
+
+  const handleOffer = async (hostId: string, offer: SessionDescription, restart?: boolean) => {
+    hostIdRef.current = hostId
+
+    // ICE restarts renegotiate the connection we already have
+    if (restart) {
+      const existing = peerConnectionRef.current
+      if (existing && existing.signalingState !== "closed") {
+        await answerOffer(existing, offer)
+      } else {
+        joinRoom()
+      }
+      return
+    }
+
+    const attempt = {}
+    pendingOfferRef.current = attempt
+    const iceServers = await getIceServers(getClientId())
+    // A newer offer took over, or we left the room, while the servers loaded
+    if (pendingOfferRef.current !== attempt) return
+    pendingOfferRef.current = null
+
+    // Replaced synchronously, so two offers can never both end up with a connection
+    peerConnectionRef.current?.close()
+    const pc = new RTCPeerConnection({ iceServers })
 
     peerConnectionRef.current = pc
 
+    pc.onconnectionstatechange = () => {
+      socketRef.current?.emit("presence-update", { connectionState: pc.connectionState })
+      if (peerConnectionRef.current !== pc) return
+
+      if (pc.connectionState === "connected") {
+        stopRejoining()
+        stopHttpFallback()
+      } else if (pc.connectionState === "failed") {
+        setAudioRecovering(true)
+        scheduleRejoin()
+        // Keep the music going over HTTP while WebRTC keeps trying
+        startHttpFallback()
+      }
+    }
+
     // Handle incoming audio stream
     pc.ontrack = (event) => {
+      upstreamTrackRef.current = event.track
+      for (const child of childConnectionsRef.current.values()) {
+        child.getSenders()[0]?.replaceTrack(event.track)
+      }
+
+      remoteStreamRef.current = event.streams[0] ?? null
+      if (httpFallbackRef.current) return
+
       if (audioRef.current && event.streams[0]) {
         audioRef.current.srcObject = event.streams[0]
         audioRef.current
@@ -108,28 +503,230 @@ export default function ListenPage() {
 
     // Handle ICE candidates
     pc.onicecandidate = (event) => {
-      if (event.candidate && socketRef.current) {
+      if (event.candidate && socketRef.current && hostIdRef.current) {
         socketRef.current.emit("ice-candidate", {
-          to: hostId,
-          candidate: event.candidate,
+          to: hostIdRef.current,
+          candidate: event.candidate.toJSON(),
         })
       }
     }
 
+    await answerOffer(pc, offer)
+  }
+
+  // Accepting asks for the microphone first, so the host only connects once we can be heard.
+  // Voice processing stays on to keep the broadcast we are listening to out of the microphone.
+  const respondToStageInvite = async (accept: boolean) => {
+    if (accept) {
+      try {
+        stageMicrophoneRef.current = await navigator.mediaDevices.getUserMedia({ audio: true })
+        setStageMuted(false)
+      } catch (error) {
+        console.error("Error accessing microphone:", error)
+        toast({
+          title: "Microphone Error",
+          description: "Allow microphone access to join the stage.",
+          variant: "destructive",
+        })
+        accept = false
+      }
+    }
+    socketRef.current?.emit("respond-to-stage-invite", { accept })
+  }
+
+  // The host connects to us to receive the microphone once we accepted
+  const handleStageOffer = async (hostId: string, offer: SessionDescription) => {
+    const microphone = stageMicrophoneRef.current
+    if (!microphone) return
+
+    stageConnectionRef.current?.close()
+    const pc = new RTCPeerConnection({ iceServers: await getIceServers(getClientId()) })
+    stageConnectionRef.current = pc
+    microphone.getAudioTracks().forEach((track) => pc.addTrack(track, microphone))
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        socketRef.current?.emit("ice-candidate", { to: hostId, candidate: event.candidate.toJSON(), stage: true })
+      }
+    }
+
+    await pc.setRemoteDescription(new RTCSessionDescription(offer))
+    const answer = await pc.createAnswer()
+    await pc.setLocalDescription(answer)
+    socketRef.current?.emit("answer", { to: hostId, answer: { type: answer.type, sdp: answer.sdp }, stage: true })
+  }
+
+  const toggleStageMute = () => {
+    stageMicrophoneRef.current?.getAudioTracks().forEach((track) => {
+      track.enabled = stageMuted
+    })
+    setStageMuted(!stageMuted)
+  }
+
+  const leaveStage = () => {
+    socketRef.current?.emit("leave-stage")
+    closeStage()
+    setStage(null)
+  }
+
+  const closeStage = () => {
+    stageConnectionRef.current?.close()
+    stageConnectionRef.current = null
+    stageMicrophoneRef.current?.getTracks().forEach((track) => track.stop())
+    stageMicrophoneRef.current = null
+  }
+
+  const answerOffer = async (pc: RTCPeerConnection, offer: SessionDescription) => {
     // Set remote description and create answer
     await pc.setRemoteDescription(new RTCSessionDescription(offer))
     const answer = await pc.createAnswer()
     await pc.setLocalDescription(answer)
 
     // Send answer back to host
-    if (socketRef.current) {
+    if (socketRef.current && hostIdRef.current) {
       socketRef.current.emit("answer", {
-        to: hostId,
-        answer: answer,
+        to: hostIdRef.current,
+        answer: { type: answer.type, sdp: answer.sdp },
       })
     }
   }
 
+  // Forwards the audio we receive to another listener in a cascade room. The connection
+  // carries whichever track arrives upstream, so it survives our own reconnects.
+  const connectChild = async (listenerId: string) => {
+    const iceServers = await getIceServers(getClientId())
+    closeChild(listenerId)
+    const pc = new RTCPeerConnection({ iceServers })
+    childConnectionsRef.current.set(listenerId, pc)
+
+    forwardStreamRef.current ??= new MediaStream()
+    const { sender } = pc.addTransceiver("audio", { direction: "sendonly", streams: [forwardStreamRef.current] })
+    if (upstreamTrackRef.current) {
+      await sender.replaceTrack(upstreamTrackRef.current)
+    }
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        socketRef.current?.emit("ice-candidate", { to: listenerId, candidate: event.candidate.toJSON() })
+      }
+    }
+
+    // The child rejoins when its audio stops, and the server finds it a new parent
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === "failed" && childConnectionsRef.current.get(listenerId) === pc) {
+        closeChild(listenerId)
+      }
+    }
+
+    const offer = await pc.createOffer()
+    await pc.setLocalDescription(offer)
+    socketRef.current?.emit("offer", { to: listenerId, offer: { type: offer.type, sdp: offer.sdp } })
+  }
+
+  const closeChild = (listenerId: string) => {
+    childConnectionsRef.current.get(listenerId)?.close()
+    childConnectionsRef.current.delete(listenerId)
+  }
+
+  const closeChildren = () => {
+    for (const pc of childConnectionsRef.current.values()) {
+      pc.close()
+    }
+    childConnectionsRef.current.clear()
+  }
+
+  // Plays the room through the server's Ogg/Opus stream instead of WebRTC
+  const startHttpFallback = async () => {
+    if (httpFallbackRef.current || !audioRef.current) return
+    httpFallbackRef.current = true
+
+    try {
+      const { httpStreamEnabled } = await fetch("/api/config").then((response) => response.json())
+      if (!httpStreamEnabled || !httpFallbackRef.current || !audioRef.current) {
+        httpFallbackRef.current = false
+        return
+      }
+
+      const query = new URLSearchParams({ clientId: getClientId() })
+      if (passcodeRef.current) query.set("passcode", passcodeRef.current)
+      if (inviteRef.current) query.set("invite", inviteRef.current)
+
+      audioRef.current.srcObject = null
+      const search = query.toString()
+      audioRef.current.src = `/stream/${encodeURIComponent(roomId)}${search ? `?${search}` : ""}`
+      setHttpFallback(true)
+      await audioRef.current.play()
+      setIsPlaying(true)
+    } catch (error) {
+      console.error("Error starting the HTTP stream:", error)
+    }
+  }
+
+  const stopHttpFallback = () => {
+    if (!httpFallbackRef.current) return
+    httpFallbackRef.current = false
+    setHttpFallback(false)
+
+    const audio = audioRef.current
+    if (audio) {
+      audio.removeAttribute("src")
+      audio.srcObject = remoteStreamRef.current
+      if (remoteStreamRef.current) {
+        audio.play().catch((error) => {
+          console.error("Error playing audio:", error)
+        })
+      }
+    }
+  }
+
+  const submitPasscode = (event: React.FormEvent) => {
+    event.preventDefault()
+    passcodeRef.current = passcode
+    joinRoom()
+  }
+
+  const saveName = (event: React.FormEvent) => {
+    event.preventDefault()
+    const name = displayName.trim()
+    saveDisplayName(name)
+    socketRef.current?.emit("presence-update", { displayName: name })
+    toast({
+      title: "Name saved",
+      description: name ? `The host will see you as ${name}.` : "You're listening anonymously.",
+    })
+  }
+
+  const sendChatMessage = (event: React.FormEvent) => {
+    event.preventDefault()
+    const text = chatInput.trim()
+    if (!text) return
+
+    socketRef.current?.emit("send-chat-message", { text })
+    setChatInput("")
+  }
+
+  const requestTrack = (event: React.FormEvent) => {
+    event.preventDefault()
+    const title = requestInput.title.trim()
+    if (!title) return
+
+    socketRef.current?.emit("request-track", { title, artist: requestInput.artist.trim() || undefined })
+    setRequestInput({ title: "", artist: "" })
+  }
+
+  const voteForRequest = (requestId: string) => {
+    socketRef.current?.emit("vote-track-request", { requestId })
+    setVotedRequestIds((voted) => new Set(voted).add(requestId))
+  }
+
+  const showReaction = (emoji: string) => {
+    const reactionId = Math.random()
+    setReactions((current) => [...current, { reactionId, emoji }])
+    setTimeout(() => {
+      setReactions((current) => current.filter((reaction) => reaction.reactionId !== reactionId))
+    }, REACTION_DISPLAY_MS)
+  }
+
   const toggleMute = () => {
     if (audioRef.current) {
       audioRef.current.muted = !isMuted
@@ -167,6 +764,31 @@ export default function ListenPage() {
         </div>
 
         <div className="space-y-6">
+          {show && connectionStatus === "connected" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  {show.title}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {show.djName && <p className="font-medium">with {show.djName}</p>}
+                <p className="text-gray-500">{formatShowTime(show)}</p>
+                {show.description && <p className="text-gray-700 whitespace-pre-line">{show.description}</p>}
+                {!isPlaying && now < show.startsAt && (
+                  <div className="text-center pt-2">
+                    <p className="text-xs text-gray-500">Starts in</p>
+                    <p className="text-3xl font-mono font-bold text-blue-600">{formatCountdown(show.startsAt - now)}</p>
+                    <p className="text-xs text-gray-500">
+                      Keep this page open and press Start Listening; the audio begins when the DJ goes on air.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -183,6 +805,36 @@ export default function ListenPage() {
                   </div>
                 )}
 
+                {connectionStatus === "reconnecting" && (
+                  <div className="flex items-center justify-center gap-2 text-amber-700 mb-4">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>
+                      Connection lost. Reconnecting{reconnectAttempt > 0 && ` (attempt ${reconnectAttempt})`}...
+                    </span>
+                  </div>
+                )}
+
+                {connectionStatus === "locked" && (
+                  <form onSubmit={submitPasscode} className="space-y-4">
+                    <div className="flex items-center justify-center gap-2 text-gray-600">
+                      <Lock className="h-4 w-4" />
+                      <span>This room is private</span>
+                    </div>
+                    <input
+                      type="password"
+                      value={passcode}
+                      onChange={(e) => setPasscode(e.target.value)}
+                      placeholder="Enter passcode"
+                      autoFocus
+                      className="w-full px-3 py-2 border rounded text-sm"
+                    />
+                    {accessError && <p className="text-sm text-red-600">{accessError}</p>}
+                    <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={!passcode}>
+                      Join Room
+                    </Button>
+                  </form>
+                )}
+
                 {connectionStatus === "connected" && !isPlaying && (
                   <div className="space-y-4">
                     <div className="text-gray-600">
@@ -203,6 +855,31 @@ export default function ListenPage() {
                       <span className="text-green-600 font-medium">Live Audio</span>
                     </div>
 
+                    {httpFallback && (
+                      <p className="text-sm text-gray-600">
+                        Playing the server&apos;s HTTP stream because a direct connection could not be made.
+                      </p>
+                    )}
+
+                    {audioRecovering && !httpFallback && (
+                      <div className="flex items-center justify-center gap-2 text-sm text-amber-700">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        <span>Audio connection interrupted, restoring...</span>
+                      </div>
+                    )}
+
+                    {stats && (
+                      <div className="text-sm text-gray-600">
+                        <p>
+                          Connection:{" "}
+                          <span className={`font-medium capitalize ${qualityColors[connectionQuality(stats)]}`}>
+                            {connectionQuality(stats)}
+                          </span>
+                        </p>
+                        <p className="text-xs">{describeStats(stats)}</p>
+                      </div>
+                    )}
+
                     <div className="flex justify-center">
                       <Button onClick={toggleMute} variant={isMuted ? "destructive" : "outline"} size="lg">
                         {isMuted ? (
@@ -221,6 +898,12 @@ export default function ListenPage() {
                   </div>
                 )}
 
+                {connectionStatus === "removed" && (
+                  <div className="text-red-600">
+                    <p>{removalMessage}</p>
+                  </div>
+                )}
+
                 {connectionStatus === "disconnected" && (
                   <div className="text-red-600">
                     <p>Disconnected from stream</p>
@@ -233,6 +916,222 @@ export default function ListenPage() {
             </CardContent>
           </Card>
 
+          {stage && connectionStatus === "connected" && (
+            <Card className="border-red-200">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MicVocal className="h-5 w-5" />
+                  {stage.status === "live" ? "You're on Air" : "Join the Stage?"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {stage.status === "invited" ? (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      The host invited you to speak on air. Everyone listening will hear your microphone. Use
+                      headphones so the stream doesn&apos;t echo back.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button onClick={() => respondToStageInvite(true)} className="flex-1 bg-red-600 hover:bg-red-700">
+                        <Mic className="h-4 w-4 mr-2" />
+                        Join
+                      </Button>
+                      <Button onClick={() => respondToStageInvite(false)} variant="outline" className="flex-1">
+                        Decline
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-600">Everyone listening hears your microphone.</p>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={toggleStageMute}
+                        variant={stageMuted ? "destructive" : "outline"}
+                        className="flex-1"
+                      >
+                        {stageMuted ? <MicOff className="h-4 w-4 mr-2" /> : <Mic className="h-4 w-4 mr-2" />}
+                        {stageMuted ? "Unmute" : "Mute"}
+                      </Button>
+                      <Button onClick={leaveStage} variant="outline" className="flex-1">
+                        Leave Stage
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {nowPlaying && connectionStatus === "connected" && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-4">
+                  {nowPlaying.artworkUrl ? (
+                    <img src={nowPlaying.artworkUrl} alt="" className="w-16 h-16 rounded object-cover" />
+                  ) : (
+                    <div className="w-16 h-16 rounded bg-blue-100 flex items-center justify-center">
+                      <Music className="h-6 w-6 text-blue-600" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-gray-500">Now playing</p>
+                    <p className="font-medium truncate">{nowPlaying.title}</p>
+                    {nowPlaying.artist && <p className="text-sm text-gray-600 truncate">{nowPlaying.artist}</p>}
+                    {nowPlaying.bpm && <p className="text-xs text-gray-500">{Math.round(nowPlaying.bpm)} BPM</p>}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {connectionStatus === "connected" && (
+            <Card>
+              <CardContent className="pt-6">
+                <form onSubmit={saveName} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    maxLength={40}
+                    placeholder="Your name (optional)"
+                    className="flex-1 px-3 py-2 border rounded text-sm"
+                  />
+                  <Button type="submit" variant="outline">
+                    Save
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {connectionStatus === "connected" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5" />
+                  Chat
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="relative">
+                  <div ref={chatScrollRef} className="h-48 overflow-y-auto space-y-2 text-sm">
+                    {chatMessages.length === 0 && <p className="text-gray-500">No messages yet</p>}
+                    {chatMessages.map((message) => (
+                      <p key={message.messageId} className="break-words">
+                        <span className={`font-medium ${message.role === "host" ? "text-blue-600" : ""}`}>
+                          {message.role === "host" ? "Host" : message.displayName || "Listener"}:
+                        </span>{" "}
+                        {message.text}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="absolute bottom-0 right-0 flex gap-1 text-2xl pointer-events-none">
+                    {reactions.map(({ reactionId, emoji }) => (
+                      <span key={reactionId} className="animate-bounce">
+                        {emoji}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex gap-1">
+                  {CHAT_REACTIONS.map((emoji) => (
+                    <Button
+                      key={emoji}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => socketRef.current?.emit("send-reaction", { emoji })}
+                    >
+                      {emoji}
+                    </Button>
+                  ))}
+                </div>
+
+                <form onSubmit={sendChatMessage} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={chatInput}
+                    onChange={(e) => setChatInput(e.target.value)}
+                    maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                    placeholder="Say something"
+                    className="flex-1 px-3 py-2 border rounded text-sm"
+                  />
+                  <Button type="submit" variant="outline" disabled={!chatInput.trim()}>
+                    Send
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {connectionStatus === "connected" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ListOrdered className="h-5 w-5" />
+                  Requests
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <form onSubmit={requestTrack} className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={requestInput.title}
+                      onChange={(e) => setRequestInput({ ...requestInput, title: e.target.value })}
+                      maxLength={200}
+                      placeholder="Title"
+                      className="px-3 py-2 border rounded text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={requestInput.artist}
+                      onChange={(e) => setRequestInput({ ...requestInput, artist: e.target.value })}
+                      maxLength={200}
+                      placeholder="Artist (optional)"
+                      className="px-3 py-2 border rounded text-sm"
+                    />
+                  </div>
+                  <Button type="submit" variant="outline" className="w-full" disabled={!requestInput.title.trim()}>
+                    Request Track
+                  </Button>
+                </form>
+
+                {trackRequests.length === 0 ? (
+                  <p className="text-sm text-gray-500">No requests yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {trackRequests.map((request) => (
+                      <div key={request.requestId} className="flex items-center gap-2 text-sm">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">
+                            {request.title}
+                            {request.artist && <span className="font-normal text-gray-600"> by {request.artist}</span>}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {request.status === "accepted" && <span className="text-green-600">Up next · </span>}
+                            Requested by {request.requestedBy || "a listener"}
+                          </p>
+                        </div>
+                        <Button
+                          onClick={() => voteForRequest(request.requestId)}
+                          variant="outline"
+                          size="sm"
+                          disabled={votedRequestIds.has(request.requestId)}
+                          title="Vote for this track"
+                        >
+                          <ThumbsUp className="h-4 w-4 mr-1" />
+                          {request.votes}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="bg-blue-50 border-blue-200">
             <CardContent className="pt-6">
               <div className="text-center text-sm text-blue-800">
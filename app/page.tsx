@@ -1,19 +1,61 @@
 "use client"
 
 import { useState } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Mic, Users, Radio, Share2 } from "lucide-react"
 import Link from "next/link"
+import { createHostedRoom } from "@/lib/host-token"
+
+type RoomOptions = { isPrivate?: boolean; passcode?: string }
 
 export default function HomePage() {
+  const router = useRouter()
   const [roomId, setRoomId] = useState("")
+  const [isPrivate, setIsPrivate] = useState(false)
+  const [passcode, setPasscode] = useState("")
+  // The room Generate created, and the options it was created with
+  const [generated, setGenerated] = useState<{ roomId: string; options: RoomOptions } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const roomOptions = (): RoomOptions => (isPrivate ? { isPrivate, passcode: passcode || undefined } : {})
+
+  const createRoom = async () => {
+    const options = roomOptions()
+    const createdId = await createHostedRoom(options)
+    setGenerated({ roomId: createdId, options })
+    setRoomId(createdId)
+    return createdId
+  }
+
+  const generateRoomId = async () => {
+    try {
+      setError(null)
+      await createRoom()
+    } catch (error) {
+      console.error("Error creating room:", error)
+      setError(error instanceof Error ? error.message : "Could not create a room")
+    }
+  }
+
+  // Rooms are only private when created that way, so the options are applied here when the
+  // generated room no longer matches them, or a private room was asked for under a typed ID
+  const startStream = async () => {
+    const options = roomOptions()
+    const matches = generated?.roomId === roomId
+    const stale = matches && JSON.stringify(generated.options) !== JSON.stringify(options)
 
-  const generateRoomId = () => {
-    const id = Math.random().toString(36).substring(2, 8).toUpperCase()
-    setRoomId(id)
+    try {
+      setError(null)
+      const hostRoomId = stale || (!matches && isPrivate) ? await createRoom() : roomId
+      router.push(`/host/${hostRoomId}`)
+    } catch (error) {
+      console.error("Error creating room:", error)
+      setError(error instanceof Error ? error.message : "Could not create a room")
+    }
   }
 
   return (
@@ -55,11 +97,31 @@ export default function HomePage() {
                   </Button>
                 </div>
               </div>
-              <Link href={`/host/${roomId}`} className="block">
-                <Button className="w-full bg-purple-600 hover:bg-purple-700" disabled={!roomId}>
-                  Start Stream
-                </Button>
-              </Link>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={isPrivate} onChange={(e) => setIsPrivate(e.target.checked)} />
+                  Private room (unlisted, invite link or passcode required)
+                </label>
+                {isPrivate && (
+                  <Input
+                    type="password"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    placeholder="Listener passcode (optional)"
+                  />
+                )}
+              </div>
+              {isPrivate && generated?.roomId !== roomId && (
+                <p className="text-sm text-gray-600">A new private room is created when you start.</p>
+              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button
+                onClick={startStream}
+                className="w-full bg-purple-600 hover:bg-purple-700"
+                disabled={!roomId && !isPrivate}
+              >
+                Start Stream
+              </Button>
             </CardContent>
           </Card>
 
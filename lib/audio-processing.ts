@@ -0,0 +1,177 @@
+// Optional processing of the host's audio before it is sent: input gain, a 3-band EQ, a
+// compressor and a brickwall limiter, built from Web Audio nodes. Audio always flows through
+// the chain, and turning processing off routes the input straight to the output, so changes
+// apply live without renegotiating any connection.
+
+export interface ProcessingSettings {
+  enabled: boolean
+  inputGainDb: number
+  // Shelf below 250 Hz, bell around 1 kHz and shelf above 4 kHz
+  lowDb: number
+  midDb: number
+  highDb: number
+  compressorThresholdDb: number
+  compressorRatio: number
+  // Brings the level back up after compression
+  makeupGainDb: number
+  // Peaks never go above this
+  limiterCeilingDb: number
+}
+
+export const defaultProcessingSettings: ProcessingSettings = {
+  enabled: false,
+  inputGainDb: 0,
+  lowDb: 0,
+  midDb: 0,
+  highDb: 0,
+  compressorThresholdDb: -18,
+  compressorRatio: 3,
+  makeupGainDb: 0,
+  limiterCeilingDb: -1,
+}
+
+// Ranges for the host page's controls; stored settings are clamped to them too
+export const processingRanges: Record<Exclude<keyof ProcessingSettings, "enabled">, [number, number]> = {
+  inputGainDb: [-24, 24],
+  lowDb: [-12, 12],
+  midDb: [-12, 12],
+  highDb: [-12, 12],
+  compressorThresholdDb: [-60, 0],
+  compressorRatio: [1, 20],
+  makeupGainDb: [0, 24],
+  limiterCeilingDb: [-12, 0],
+}
+
+// How quickly parameter changes take effect, smoothed so moving a control doesn't click
+const PARAM_TIME_CONSTANT = 0.02
+const CLIPPER_CURVE_LENGTH = 4097
+
+const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+// Sources connect to input; output carries the processed audio
+export function createProcessingChain(context: AudioContext, settings: ProcessingSettings) {
+  const input = context.createGain()
+  const output = context.createGain()
+
+  const inputGain = context.createGain()
+  const low = new BiquadFilterNode(context, { type: "lowshelf", frequency: 250 })
+  const mid = new BiquadFilterNode(context, { type: "peaking", frequency: 1000, Q: 0.7 })
+  const high = new BiquadFilterNode(context, { type: "highshelf", frequency: 4000 })
+  const compressor = new DynamicsCompressorNode(context, { knee: 6, attack: 0.01, release: 0.25 })
+  const makeupGain = context.createGain()
+  // A fast, hard compressor catches peaks, and the clipper after it holds whatever slips through
+  // its lookahead at the ceiling
+  const limiter = new DynamicsCompressorNode(context, { knee: 0, ratio: 20, attack: 0.001, release: 0.1 })
+  const clipper = new WaveShaperNode(context, { oversample: "4x" })
+
+  inputGain.connect(low)
+  low.connect(mid)
+  mid.connect(high)
+  high.connect(compressor)
+  compressor.connect(makeupGain)
+  makeupGain.connect(limiter)
+  limiter.connect(clipper)
+  clipper.connect(output)
+
+  let current: ProcessingSettings | null = null
+
+  const update = (next: ProcessingSettings) => {
+    const at = context.currentTime
+    inputGain.gain.setTargetAtTime(dbToGain(next.inputGainDb), at, PARAM_TIME_CONSTANT)
+    low.gain.setTargetAtTime(next.lowDb, at, PARAM_TIME_CONSTANT)
+    mid.gain.setTargetAtTime(next.midDb, at, PARAM_TIME_CONSTANT)
+    high.gain.setTargetAtTime(next.highDb, at, PARAM_TIME_CONSTANT)
+    compressor.threshold.setTargetAtTime(next.compressorThresholdDb, at, PARAM_TIME_CONSTANT)
+    compressor.ratio.setTargetAtTime(next.compressorRatio, at, PARAM_TIME_CONSTANT)
+    makeupGain.gain.setTargetAtTime(dbToGain(next.makeupGainDb), at, PARAM_TIME_CONSTANT)
+    limiter.threshold.setTargetAtTime(next.limiterCeilingDb, at, PARAM_TIME_CONSTANT)
+    if (next.limiterCeilingDb !== current?.limiterCeilingDb) {
+      clipper.curve = clipperCurve(dbToGain(next.limiterCeilingDb))
+    }
+
+    if (next.enabled !== current?.enabled) {
+      input.disconnect()
+      input.connect(next.enabled ? inputGain : output)
+    }
+    current = next
+  }
+
+  update(settings)
+
+  return {
+    input,
+    output,
+    update,
+    // Gain reduction in dB (negative while reducing), for meters on the host page
+    reduction: () => ({ compressor: compressor.reduction, limiter: limiter.reduction }),
+  }
+}
+
+export type ProcessingChain = ReturnType<typeof createProcessingChain>
+
+// Passes samples through unchanged up to the ceiling, and cuts off everything above it
+function clipperCurve(ceiling: number) {
+  const curve = new Float32Array(CLIPPER_CURVE_LENGTH)
+  for (let index = 0; index < CLIPPER_CURVE_LENGTH; index++) {
+    const sample = (index / (CLIPPER_CURVE_LENGTH - 1)) * 2 - 1
+    curve[index] = Math.max(-ceiling, Math.min(ceiling, sample))
+  }
+  return curve
+}
+
+// Settings are kept per room in localStorage: the ones in use, and named presets the host saved
+
+interface StoredProcessing {
+  current: ProcessingSettings
+  presets: Record<string, ProcessingSettings>
+}
+
+const storageKey = (roomId: string) => `livestream:processing:${roomId}`
+
+export function loadProcessing(roomId: string): StoredProcessing {
+  let stored: Partial<StoredProcessing> = {}
+  try {
+    stored = JSON.parse(window.localStorage.getItem(storageKey(roomId)) ?? "{}")
+  } catch {
+    // Unreadable settings start over from the defaults
+  }
+
+  const presets = Object.fromEntries(
+    Object.entries(stored.presets ?? {}).map(([name, settings]) => [name, validSettings(settings)]),
+  )
+  return { current: validSettings(stored.current), presets }
+}
+
+export function saveProcessingSettings(roomId: string, settings: ProcessingSettings) {
+  store(roomId, { ...loadProcessing(roomId), current: settings })
+}
+
+export function saveProcessingPreset(roomId: string, name: string, settings: ProcessingSettings) {
+  const stored = loadProcessing(roomId)
+  store(roomId, { ...stored, presets: { ...stored.presets, [name]: settings } })
+  return loadProcessing(roomId).presets
+}
+
+export function deleteProcessingPreset(roomId: string, name: string) {
+  const stored = loadProcessing(roomId)
+  const { [name]: _deleted, ...presets } = stored.presets
+  store(roomId, { ...stored, presets })
+  return presets
+}
+
+function store(roomId: string, stored: StoredProcessing) {
+  window.localStorage.setItem(storageKey(roomId), JSON.stringify(stored))
+}
+
+// Fills in missing values and clamps the rest, e.g. for settings saved by an older version
+function validSettings(value: unknown): ProcessingSettings {
+  const stored = (typeof value === "object" && value !== null ? value : {}) as Partial<Record<string, unknown>>
+  const settings = { ...defaultProcessingSettings, enabled: stored.enabled === true }
+  for (const [key, [min, max]] of Object.entries(processingRanges) as [keyof typeof processingRanges, number[]][]) {
+    const number = stored[key]
+    if (typeof number === "number" && Number.isFinite(number)) {
+      settings[key] = Math.min(max, Math.max(min, number))
+    }
+  }
+  return settings
+}
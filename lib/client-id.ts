@@ -0,0 +1,75 @@
+import type { ClientInfo } from "@/lib/signaling"
+
+// Identity a browser presents when joining rooms. The client ID is a random identifier
+// that stays the same across reloads and reconnects, so the server can recognise a
+// returning listener.
+
+const storageKey = "livestream:client-id"
+const sessionKey = "livestream:session-id"
+const displayNameKey = "livestream:display-name"
+
+export function getClientId() {
+  let clientId = window.localStorage.getItem(storageKey)
+  if (!clientId) {
+    clientId = crypto.randomUUID()
+    window.localStorage.setItem(storageKey, clientId)
+  }
+  return clientId
+}
+
+// Identifies this tab across socket reconnects and reloads, unlike the client ID which
+// every tab of the browser shares
+export function getSessionId() {
+  let sessionId = window.sessionStorage.getItem(sessionKey)
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    window.sessionStorage.setItem(sessionKey, sessionId)
+  }
+  return sessionId
+}
+
+// Starts a new session for this tab, e.g. when it was duplicated along with its session ID
+export function resetSessionId() {
+  window.sessionStorage.removeItem(sessionKey)
+  return getSessionId()
+}
+
+// The name a listener chose for the host's roster, remembered for the next room
+export function getDisplayName() {
+  return window.localStorage.getItem(displayNameKey) ?? ""
+}
+
+export function saveDisplayName(displayName: string) {
+  window.localStorage.setItem(displayNameKey, displayName)
+}
+
+// Listeners a cascade room may ask this browser to forward the audio to. Phones and
+// slow or metered connections only listen.
+const DEFAULT_RELAY_CAPACITY = 3
+
+export function getRelayCapacity() {
+  const connection = (navigator as Navigator & { connection?: { saveData?: boolean; effectiveType?: string } })
+    .connection
+  if (/Mobi|Android|iPhone|iPad/i.test(navigator.userAgent)) return 0
+  if (connection?.saveData || (connection?.effectiveType && connection.effectiveType !== "4g")) return 0
+  return DEFAULT_RELAY_CAPACITY
+}
+
+export function getClientInfo(): ClientInfo {
+  return { userAgent: navigator.userAgent.slice(0, 512), platform: navigator.platform.slice(0, 64) || undefined }
+}
+
+const browsers: [name: string, pattern: RegExp][] = [
+  ["Edge", /Edg\//],
+  ["Opera", /OPR\//],
+  ["Firefox", /Firefox\//],
+  ["Chrome", /Chrome\//],
+  ["Safari", /Safari\//],
+]
+
+// Short "Browser on Platform" label for the roster
+export function describeClient(client: ClientInfo | null) {
+  const userAgent = client?.userAgent ?? ""
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? "Unknown browser"
+  return client?.platform ? `${browser} on ${client.platform}` : browser
+}
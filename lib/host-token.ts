@@ -0,0 +1,131 @@
+import type { RecordingInfo } from "@/lib/signaling"
+
+// Host tokens prove room ownership. They are kept in localStorage so the host can
+// reclaim the room after a reload or a dropped connection.
+
+const storageKey = (roomId: string) => `livestream:host-token:${roomId}`
+
+// A scheduled show's address may be typed in another case than the room was created with
+export function getHostToken(roomId: string) {
+  if (typeof window === "undefined") return undefined
+  const storage = window.localStorage
+  return storage.getItem(storageKey(roomId)) ?? storage.getItem(storageKey(roomId.toLowerCase())) ?? undefined
+}
+
+export function saveHostToken(roomId: string, hostToken: string) {
+  window.localStorage.setItem(storageKey(roomId), hostToken)
+}
+
+// Creates a room on the server and keeps its host token for the host page
+export async function createHostedRoom(options: { isPrivate?: boolean; passcode?: string } = {}) {
+  const response = await fetch("/api/rooms", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(options),
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.error ?? "Failed to create room")
+  }
+
+  saveHostToken(body.roomId, body.hostToken)
+  return body.roomId as string
+}
+
+// Asks the server for a signed invite link to a private room, valid for the given time
+export async function createInviteLink(roomId: string, expiresInMinutes = 24 * 60) {
+  const response = await fetch(`/api/rooms/${roomId}/invites`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getHostToken(roomId) ?? ""}`,
+    },
+    body: JSON.stringify({ expiresInMinutes }),
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.error ?? "Failed to create invite link")
+  }
+
+  return { url: `${window.location.origin}${body.path}`, expiresAt: new Date(body.expiresAt) }
+}
+
+// Asks the server for a link that lets another DJ host the room, under the given name
+export async function createDjLink(roomId: string, displayName: string, expiresInMinutes = 24 * 60) {
+  const response = await fetch(`/api/rooms/${roomId}/dj-invites`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getHostToken(roomId) ?? ""}`,
+    },
+    body: JSON.stringify({ displayName, expiresInMinutes }),
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.error ?? "Failed to create DJ link")
+  }
+
+  return { url: `${window.location.origin}${body.path}`, expiresAt: new Date(body.expiresAt) }
+}
+
+// Sets a new password for broadcasting software to connect with, replacing any earlier one
+export async function createSourcePassword(roomId: string) {
+  const response = await fetch(`/api/rooms/${roomId}/source-password`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${getHostToken(roomId) ?? ""}` },
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.error ?? "Failed to create a source password")
+  }
+
+  return body as { password: string; mount: string; port: number; username: string }
+}
+
+export interface ArchivedRecording extends RecordingInfo {
+  expiresAt: number | null
+  downloadPath: string
+}
+
+// The room's recordings on the server, newest first, with download links that work for a while
+export async function listRecordings(roomId: string) {
+  const response = await fetch(`/api/rooms/${roomId}/recordings`, {
+    headers: { Authorization: `Bearer ${getHostToken(roomId) ?? ""}` },
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.error ?? "Failed to load recordings")
+  }
+
+  return body.recordings as ArchivedRecording[]
+}
+
+// Saves the room's setlist as a file; start and end narrow it down to e.g. a recording
+export async function downloadSetlist(
+  roomId: string,
+  format: "json" | "csv" | "cue",
+  range?: { start: number; end: number },
+) {
+  const query = new URLSearchParams({ format, ...(range && { start: String(range.start), end: String(range.end) }) })
+  const response = await fetch(`/api/rooms/${roomId}/setlist?${query}`, {
+    headers: { Authorization: `Bearer ${getHostToken(roomId) ?? ""}` },
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error ?? "Failed to load the setlist")
+  }
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  const fileName = /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") ?? "")?.[1]
+  link.download = fileName ?? `${roomId}-setlist.${format}`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
@@ -0,0 +1,63 @@
+// ICE servers for peer connections come from the server (GET /api/ice-servers) so STUN and
+// TURN relays can be configured per deployment. TURN credentials expire, so the config is
+// fetched again shortly before they do.
+
+export interface IceServer {
+  urls: string | string[]
+  username?: string
+  credential?: string
+}
+
+export interface IceConfig {
+  iceServers: IceServer[]
+  // When the TURN credentials stop working; null when there are none
+  expiresAt: number | null
+}
+
+// Used when the server cannot be reached
+export const DEFAULT_ICE_SERVERS: IceServer[] = [
+  { urls: "stun:stun.l.google.com:19302" },
+  { urls: "stun:stun1.l.google.com:19302" },
+]
+
+// Refetch this long before the credentials expire, so a connection set up just before
+// expiry can still allocate a relay
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+let cached: IceConfig | null = null
+let pending: Promise<IceConfig> | null = null
+
+async function fetchIceConfig(clientId?: string): Promise<IceConfig> {
+  const query = clientId ? `?clientId=${encodeURIComponent(clientId)}` : ""
+  const response = await fetch(`/api/ice-servers${query}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load ICE servers (${response.status})`)
+  }
+  return response.json()
+}
+
+function isFresh(config: IceConfig) {
+  return config.expiresAt === null || config.expiresAt - Date.now() > REFRESH_MARGIN_MS
+}
+
+export async function getIceServers(clientId?: string): Promise<IceServer[]> {
+  if (cached && isFresh(cached)) {
+    return cached.iceServers
+  }
+
+  pending ??= fetchIceConfig(clientId)
+    .then((config) => {
+      cached = config
+      return config
+    })
+    .finally(() => {
+      pending = null
+    })
+
+  try {
+    return (await pending).iceServers
+  } catch (error) {
+    console.warn("Could not load ICE servers, falling back to public STUN:", error)
+    return cached?.iceServers ?? DEFAULT_ICE_SERVERS
+  }
+}
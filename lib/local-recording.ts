@@ -0,0 +1,158 @@
+// Local backups of what the host broadcasts, recorded in the browser with MediaRecorder.
+// Every chunk is written to IndexedDB as soon as it is recorded, so a take survives a
+// crashed or closed tab and can still be downloaded the next time the host page opens.
+
+const DB_NAME = "livestream-recordings"
+const TAKES = "takes"
+const CHUNKS = "chunks"
+// How often MediaRecorder hands over a chunk; at most this much is lost if the tab crashes
+const CHUNK_INTERVAL_MS = 5000
+
+const preferredMimeTypes = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"]
+
+export interface LocalTake {
+  takeId: string
+  roomId: string
+  mimeType: string
+  startedAt: number
+  // null while recording, and for takes whose tab closed before they were stopped
+  stoppedAt: number | null
+  bytes: number
+}
+
+interface TakeChunk {
+  takeId: string
+  data: Blob
+}
+
+export function localRecordingSupported() {
+  return typeof window !== "undefined" && "MediaRecorder" in window && "indexedDB" in window
+}
+
+// Starts recording the stream. The take ends when stop() is called or the stream's tracks end.
+export async function startLocalRecording(stream: MediaStream, roomId: string) {
+  const mimeType = preferredMimeTypes.find((type) => MediaRecorder.isTypeSupported(type))
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+  const take: LocalTake = {
+    takeId: crypto.randomUUID(),
+    roomId,
+    mimeType: recorder.mimeType || mimeType || "audio/webm",
+    startedAt: Date.now(),
+    stoppedAt: null,
+    bytes: 0,
+  }
+
+  const db = await openDatabase()
+  await request(db.transaction(TAKES, "readwrite").objectStore(TAKES).put(take))
+
+  // Chunks are saved one after the other so they stay in recording order
+  let saving = Promise.resolve()
+  recorder.ondataavailable = ({ data }) => {
+    if (data.size === 0) return
+    take.bytes += data.size
+    saving = saving.then(() => saveChunk(db, take, data)).catch((error) => console.error("Error saving chunk:", error))
+  }
+
+  const stopped = new Promise<LocalTake>((resolve) => {
+    recorder.onstop = async () => {
+      take.stoppedAt = Date.now()
+      await saving
+      await request(db.transaction(TAKES, "readwrite").objectStore(TAKES).put(take)).catch(() => {})
+      db.close()
+      resolve({ ...take })
+    }
+  })
+
+  recorder.start(CHUNK_INTERVAL_MS)
+
+  return {
+    take,
+    stop: () => {
+      if (recorder.state !== "inactive") recorder.stop()
+      return stopped
+    },
+  }
+}
+
+export type LocalRecording = Awaited<ReturnType<typeof startLocalRecording>>
+
+// The room's takes, newest first
+export async function listLocalTakes(roomId: string) {
+  const db = await openDatabase()
+  try {
+    const takes: LocalTake[] = await request(db.transaction(TAKES).objectStore(TAKES).getAll())
+    return takes.filter((take) => take.roomId === roomId).sort((a, b) => b.startedAt - a.startedAt)
+  } finally {
+    db.close()
+  }
+}
+
+// Saves the take as a file, named after the room and when it started
+export async function downloadLocalTake(take: LocalTake) {
+  const db = await openDatabase()
+  let chunks: TakeChunk[]
+  try {
+    chunks = await request(db.transaction(CHUNKS).objectStore(CHUNKS).index("takeId").getAll(take.takeId))
+  } finally {
+    db.close()
+  }
+
+  const url = URL.createObjectURL(new Blob(chunks.map(({ data }) => data), { type: take.mimeType }))
+  const startedAt = new Date(take.startedAt).toISOString().slice(0, 16).replace(/[T:]/g, "-")
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${take.roomId}-${startedAt}.${fileExtension(take.mimeType)}`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
+
+export async function discardLocalTake(takeId: string) {
+  const db = await openDatabase()
+  try {
+    const transaction = db.transaction([TAKES, CHUNKS], "readwrite")
+    transaction.objectStore(TAKES).delete(takeId)
+    const keys = await request(transaction.objectStore(CHUNKS).index("takeId").getAllKeys(takeId))
+    keys.forEach((key) => transaction.objectStore(CHUNKS).delete(key))
+    await completion(transaction)
+  } finally {
+    db.close()
+  }
+}
+
+async function saveChunk(db: IDBDatabase, take: LocalTake, data: Blob) {
+  const transaction = db.transaction([TAKES, CHUNKS], "readwrite")
+  transaction.objectStore(CHUNKS).add({ takeId: take.takeId, data } satisfies TakeChunk)
+  transaction.objectStore(TAKES).put(take)
+  await completion(transaction)
+}
+
+function openDatabase() {
+  const open = indexedDB.open(DB_NAME, 1)
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(TAKES, { keyPath: "takeId" })
+    // Auto-incremented keys keep the chunks of a take in order
+    open.result.createObjectStore(CHUNKS, { autoIncrement: true }).createIndex("takeId", "takeId")
+  }
+  return request(open)
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function completion(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function fileExtension(mimeType: string) {
+  if (mimeType.startsWith("audio/ogg")) return "ogg"
+  if (mimeType.startsWith("audio/mp4")) return "m4a"
+  return "webm"
+}
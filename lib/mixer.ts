@@ -0,0 +1,232 @@
+// Mixes the host's inputs into the one stream that is sent: system or tab audio, any number of
+// microphones, local files and a guest on stage. Each channel has a fader and a mute. With
+// ducking on, the music channels are turned down while someone talks into a microphone.
+
+export type MixerInputKind = "system" | "mic" | "file" | "guest"
+
+export interface MixerChannel {
+  channelId: string
+  kind: MixerInputKind
+  label: string
+  // Linear gain, up to MAX_CHANNEL_VOLUME
+  volume: number
+  muted: boolean
+  // File channels only
+  playing?: boolean
+}
+
+export interface DuckingSettings {
+  enabled: boolean
+  // How far music is turned down while someone talks
+  depthDb: number
+}
+
+export const MAX_CHANNEL_VOLUME = 1.5
+export const defaultDuckingSettings: DuckingSettings = { enabled: false, depthDb: -12 }
+
+// A microphone louder than this (RMS, dBFS) counts as talking
+const TALK_THRESHOLD_DB = -45
+// Music stays down this long after the talking stops, so it doesn't pump between words
+const DUCK_HOLD_MS = 600
+const DUCK_ATTACK = 0.05
+const DUCK_RELEASE = 0.4
+const DETECT_INTERVAL_MS = 50
+const FADER_TIME_CONSTANT = 0.02
+
+const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+// Voices are never ducked, and talking into them ducks the music
+const isVoice = (kind: MixerInputKind) => kind === "mic" || kind === "guest"
+
+interface ChannelNodes {
+  channel: MixerChannel
+  fader: GainNode
+  duck: GainNode
+  analyser: AnalyserNode
+  player: HTMLAudioElement | null
+  stop: () => void
+}
+
+// Channels are mixed into output. onChange is called when channels change by themselves, e.g.
+// when the browser stops sharing system audio or a file finishes playing.
+export function createMixer(context: AudioContext, output: AudioNode, onChange: () => void) {
+  const channels = new Map<string, ChannelNodes>()
+  const samples = new Float32Array(2048)
+  let ducking = defaultDuckingSettings
+  let ducked = false
+  let lastTalkAt = 0
+
+  const add = (kind: MixerInputKind, label: string, source: AudioNode, stop: () => void, player?: HTMLAudioElement) => {
+    const fader = context.createGain()
+    const duck = context.createGain()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = samples.length
+    source.connect(fader)
+    fader.connect(analyser)
+    fader.connect(duck)
+    duck.connect(output)
+
+    const channel: MixerChannel = { channelId: crypto.randomUUID(), kind, label, volume: 1, muted: false }
+    if (player) channel.playing = false
+    const nodes: ChannelNodes = { channel, fader, duck, analyser, player: player ?? null, stop }
+    channels.set(channel.channelId, nodes)
+    if (ducked && !isVoice(kind)) duck.gain.value = dbToGain(ducking.depthDb)
+    return channel
+  }
+
+  const remove = (channelId: string) => {
+    const nodes = channels.get(channelId)
+    if (!nodes) return
+
+    channels.delete(channelId)
+    nodes.duck.disconnect()
+    nodes.stop()
+  }
+
+  // RMS level after the fader, in dBFS
+  const level = ({ analyser }: ChannelNodes) => {
+    analyser.getFloatTimeDomainData(samples)
+    const power = samples.reduce((total, sample) => total + sample * sample, 0) / samples.length
+    return power > 0 ? 10 * Math.log10(power) : -Infinity
+  }
+
+  const setDucked = (next: boolean, force = false) => {
+    if (next === ducked && !force) return
+
+    ducked = next
+    const gain = ducked ? dbToGain(ducking.depthDb) : 1
+    for (const { channel, duck } of channels.values()) {
+      if (!isVoice(channel.kind)) {
+        duck.gain.setTargetAtTime(gain, context.currentTime, ducked ? DUCK_ATTACK : DUCK_RELEASE)
+      }
+    }
+  }
+
+  const detectTalking = setInterval(() => {
+    if (!ducking.enabled) return
+
+    const talking = Array.from(channels.values()).some(
+      (nodes) => isVoice(nodes.channel.kind) && !nodes.channel.muted && level(nodes) > TALK_THRESHOLD_DB,
+    )
+    if (talking) lastTalkAt = Date.now()
+    setDucked(talking || Date.now() - lastTalkAt < DUCK_HOLD_MS)
+  }, DETECT_INTERVAL_MS)
+
+  return {
+    channels: () => Array.from(channels.values(), ({ channel }) => ({ ...channel })),
+
+    // Takes over the stream: its tracks are stopped when the channel is removed
+    addStream(kind: Exclude<MixerInputKind, "file">, label: string, stream: MediaStream) {
+      const channel = add(kind, label, context.createMediaStreamSource(stream), () => {
+        stream.getTracks().forEach((track) => track.stop())
+      })
+      stream.getAudioTracks().forEach((track) =>
+        track.addEventListener("ended", () => {
+          remove(channel.channelId)
+          onChange()
+        }),
+      )
+      return channel
+    },
+
+    // Played only into the mix; the host hears it through the level meter, not the speakers
+    addFile(file: File) {
+      const player = new Audio(URL.createObjectURL(file))
+      const channel = add(
+        "file",
+        file.name,
+        context.createMediaElementSource(player),
+        () => {
+          player.pause()
+          URL.revokeObjectURL(player.src)
+        },
+        player,
+      )
+      player.addEventListener("ended", () => {
+        channel.playing = false
+        onChange()
+      })
+      return channel
+    },
+
+    async togglePlayback(channelId: string) {
+      const nodes = channels.get(channelId)
+      if (!nodes?.player) return
+
+      if (nodes.player.paused) {
+        await nodes.player.play()
+      } else {
+        nodes.player.pause()
+      }
+      nodes.channel.playing = !nodes.player.paused
+    },
+
+    update(channelId: string, update: Partial<Pick<MixerChannel, "volume" | "muted">>) {
+      const nodes = channels.get(channelId)
+      if (!nodes) return
+
+      Object.assign(nodes.channel, update)
+      const gain = nodes.channel.muted ? 0 : nodes.channel.volume
+      nodes.fader.gain.setTargetAtTime(gain, context.currentTime, FADER_TIME_CONSTANT)
+    },
+
+    remove,
+
+    setDucking(settings: DuckingSettings) {
+      const depthChanged = settings.depthDb !== ducking.depthDb
+      ducking = settings
+      if (!settings.enabled) {
+        setDucked(false)
+      } else if (ducked && depthChanged) {
+        setDucked(true, true)
+      }
+    },
+
+    isDucked: () => ducked,
+
+    // Each channel's level from 0 to 1, for meters
+    levels: () =>
+      Object.fromEntries(
+        Array.from(channels.values(), (nodes) => [nodes.channel.channelId, Math.max(0, 1 + level(nodes) / 60)]),
+      ),
+
+    close() {
+      clearInterval(detectTalking)
+      Array.from(channels.keys()).forEach(remove)
+    },
+  }
+}
+
+export type Mixer = ReturnType<typeof createMixer>
+
+// Captures with the browser's voice processing off, which would otherwise mangle music
+const rawAudio = { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+
+export async function captureMicrophone(deviceId?: string) {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { ...rawAudio, ...(deviceId && { deviceId: { exact: deviceId } }) },
+  })
+  return { stream, label: stream.getAudioTracks()[0]?.label || "Microphone" }
+}
+
+// Browsers only share system or tab audio along with a screen, so the video is stopped at once
+export async function captureSystemAudio() {
+  const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: { ...rawAudio, channelCount: 2 } })
+  stream.getVideoTracks().forEach((track) => {
+    track.stop()
+    stream.removeTrack(track)
+  })
+
+  if (stream.getAudioTracks().length === 0) {
+    throw new Error('No audio was shared. Check "Share system audio" or "Share tab audio" when prompted.')
+  }
+  return { stream, label: stream.getAudioTracks()[0].label || "System audio" }
+}
+
+// Labels are only available once the page may use the microphone
+export async function listMicrophones() {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter((device) => device.kind === "audioinput" && device.deviceId)
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Microphone ${index + 1}` }))
+}
@@ -0,0 +1,165 @@
+import type { CandidateType, ConnectionStats } from "@/lib/signaling"
+
+// Connection quality of an audio peer connection, computed from the change in getStats()
+// counters between two samples. Hosts measure what they send to each listener, listeners
+// measure what they receive and report it to the host.
+
+export const STATS_INTERVAL_MS = 5000
+
+export type StatsDirection = "inbound" | "outbound"
+
+// Cumulative counters from one getStats() call, kept to compute the next sample
+export interface StatsCounters {
+  bytes: number
+  packets: number
+  packetsLost: number
+  timestamp: number
+}
+
+export type ConnectionQuality = "good" | "fair" | "poor"
+
+// Stats dictionaries lib.dom does not declare yet, and the flag Firefox sets on the selected pair
+interface RemoteInboundRtpStats extends RTCReceivedRtpStreamStats {
+  roundTripTime?: number
+}
+
+interface IceCandidateStats extends RTCStats {
+  candidateType?: CandidateType
+}
+
+interface CandidatePairStats extends RTCIceCandidatePairStats {
+  selected?: boolean
+}
+
+// The report's entries, told apart by their type
+type StatsEntry =
+  | (RTCInboundRtpStreamStats & { type: "inbound-rtp" })
+  | (RTCOutboundRtpStreamStats & { type: "outbound-rtp" })
+  | (RemoteInboundRtpStats & { type: "remote-inbound-rtp" })
+  | (RTCTransportStats & { type: "transport" })
+  | (CandidatePairStats & { type: "candidate-pair" })
+  | (IceCandidateStats & { type: "local-candidate" | "remote-candidate" })
+  | (RTCStats & {
+      type: Exclude<
+        RTCStatsType,
+        | "inbound-rtp"
+        | "outbound-rtp"
+        | "remote-inbound-rtp"
+        | "transport"
+        | "candidate-pair"
+        | "local-candidate"
+        | "remote-candidate"
+      >
+    })
+
+export async function samplePeerStats(
+  pc: RTCPeerConnection,
+  direction: StatsDirection,
+  previous: StatsCounters | null,
+): Promise<{ counters: StatsCounters | null; stats: ConnectionStats | null }> {
+  const report = await pc.getStats()
+
+  let inbound: RTCInboundRtpStreamStats | undefined
+  let outbound: RTCOutboundRtpStreamStats | undefined
+  let remoteInbound: RemoteInboundRtpStats | undefined
+  let selectedPairId: string | undefined
+  let flaggedPair: CandidatePairStats | undefined
+  report.forEach((entry: StatsEntry) => {
+    switch (entry.type) {
+      case "inbound-rtp":
+        if (entry.kind === "audio") inbound = entry
+        break
+      case "outbound-rtp":
+        if (entry.kind === "audio") outbound = entry
+        break
+      case "remote-inbound-rtp":
+        if (entry.kind === "audio") remoteInbound = entry
+        break
+      case "transport":
+        if (entry.selectedCandidatePairId) selectedPairId = entry.selectedCandidatePairId
+        break
+      case "candidate-pair":
+        if (entry.selected) flaggedPair = entry
+        break
+    }
+  })
+
+  // Firefox has no transport stats and flags the selected pair instead
+  const selectedPair: CandidatePairStats | undefined = selectedPairId ? report.get(selectedPairId) : undefined
+  const pair = selectedPair ?? flaggedPair
+
+  // Senders only learn about loss and jitter from the receiver's RTCP reports
+  let counters: StatsCounters
+  if (direction === "inbound") {
+    if (!inbound) return { counters: null, stats: null }
+    counters = {
+      bytes: inbound.bytesReceived ?? 0,
+      packets: inbound.packetsReceived ?? 0,
+      packetsLost: inbound.packetsLost ?? 0,
+      timestamp: inbound.timestamp,
+    }
+  } else {
+    if (!outbound) return { counters: null, stats: null }
+    counters = {
+      bytes: outbound.bytesSent ?? 0,
+      packets: outbound.packetsSent ?? 0,
+      packetsLost: remoteInbound?.packetsLost ?? 0,
+      timestamp: outbound.timestamp,
+    }
+  }
+
+  if (!previous || counters.timestamp <= previous.timestamp) {
+    return { counters, stats: null }
+  }
+
+  const seconds = (counters.timestamp - previous.timestamp) / 1000
+  const packets = Math.max(0, counters.packets - previous.packets)
+  const lost = Math.max(0, counters.packetsLost - previous.packetsLost)
+  const expected = direction === "inbound" ? packets + lost : packets
+  const jitter = direction === "inbound" ? inbound?.jitter : remoteInbound?.jitter
+  const roundTrip = pair?.currentRoundTripTime ?? remoteInbound?.roundTripTime
+
+  return {
+    counters,
+    stats: {
+      bitrateKbps: Math.round(((counters.bytes - previous.bytes) * 8) / 1000 / seconds),
+      packetLossPercent: expected > 0 ? Math.min(100, Math.round((lost / expected) * 1000) / 10) : 0,
+      jitterMs: jitter !== undefined ? Math.round(jitter * 1000) : null,
+      roundTripMs: roundTrip !== undefined ? Math.round(roundTrip * 1000) : null,
+      candidateType: candidateType(report, pair),
+    },
+  }
+}
+
+function candidateType(report: RTCStatsReport, pair: RTCIceCandidatePairStats | undefined): CandidateType | null {
+  if (!pair) return null
+
+  const local: IceCandidateStats | undefined = report.get(pair.localCandidateId)
+  const remote: IceCandidateStats | undefined = report.get(pair.remoteCandidateId)
+  // Either end relaying means the audio goes through a TURN server
+  if (remote?.candidateType === "relay") return "relay"
+  return local?.candidateType ?? null
+}
+
+// Rough rating for the quality indicators, tuned for a one-way music stream
+export function connectionQuality({ packetLossPercent, jitterMs, roundTripMs }: ConnectionStats): ConnectionQuality {
+  if (packetLossPercent > 5 || (jitterMs ?? 0) > 50 || (roundTripMs ?? 0) > 400) return "poor"
+  if (packetLossPercent > 1 || (jitterMs ?? 0) > 30 || (roundTripMs ?? 0) > 200) return "fair"
+  return "good"
+}
+
+// Picks the worst rating, e.g. to summarise all of a host's listeners
+export function worstQuality(qualities: ConnectionQuality[]): ConnectionQuality | null {
+  for (const quality of ["poor", "fair", "good"] as const) {
+    if (qualities.includes(quality)) return quality
+  }
+  return null
+}
+
+export function describeStats(stats: ConnectionStats) {
+  const details = [`${stats.bitrateKbps} kbps`, `${stats.packetLossPercent}% loss`]
+  if (stats.jitterMs !== null) details.push(`${stats.jitterMs} ms jitter`)
+  if (stats.roundTripMs !== null) details.push(`${stats.roundTripMs} ms RTT`)
+  if (stats.candidateType) details.push(stats.candidateType === "relay" ? "via TURN" : stats.candidateType)
+  return details.join(", ")
+}
@@ -0,0 +1,22 @@
+import type { ManagerOptions } from "socket.io-client"
+
+// Recovery settings shared by the host and listener pages. Socket.IO retries dropped
+// signaling connections itself; ICE restarts and rejoins are scheduled with backoffDelay.
+
+export const socketOptions: Partial<ManagerOptions> = {
+  reconnectionDelay: 1000,
+  reconnectionDelayMax: 30_000,
+  randomizationFactor: 0.5,
+}
+
+// ICE restarts attempted before the host gives up on a connection and starts a new one
+export const MAX_ICE_RESTARTS = 5
+
+// How long a "disconnected" ICE state may last before it is treated as a failure
+export const ICE_DISCONNECTED_TIMEOUT_MS = 5000
+
+// Exponential backoff with jitter: about 1s, 2s, 4s, ... capped at maxMs
+export function backoffDelay(attempt: number, baseMs = 1000, maxMs = 30_000) {
+  const delay = Math.min(maxMs, baseMs * 2 ** attempt)
+  return delay / 2 + Math.random() * (delay / 2)
+}
@@ -0,0 +1,505 @@
+import { z } from "zod"
+
+// Shared signaling protocol between the Node server and the host/listener clients.
+// Every Socket.IO event is declared here so both sides agree on names and payloads.
+
+export const roleSchema = z.enum(["host", "listener"])
+
+// Generated IDs, or the vanity slug a scheduled show was created with
+export const roomIdSchema = z.string().trim().min(1).max(32)
+
+// Lower-case letters, digits and dashes, e.g. "friday-night-house"
+export const roomSlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9][a-z0-9-]{1,30}[a-z0-9]$/, "Use 3 to 32 letters, digits and dashes for the address")
+
+// How audio reaches listeners: "mesh" has the host connect to every listener directly,
+// "relay" has the host publish one stream to the server, which forwards it to listeners,
+// and "cascade" has listeners pass the audio on to other listeners in a tree
+export const roomModeSchema = z.enum(["mesh", "relay", "cascade"])
+
+// Peer ID of the server's relay in offer, answer and ice-candidate messages
+export const RELAY_PEER_ID = "relay"
+
+// Parent ID of listeners the host feeds directly in cascade mode
+export const HOST_PARENT_ID = "host"
+
+const socketIdSchema = z.string().min(1).max(64)
+
+const sessionDescriptionSchema = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().max(100_000).optional(),
+})
+
+const iceCandidateSchema = z.object({
+  candidate: z.string().max(2048).optional(),
+  sdpMid: z.string().max(64).nullable().optional(),
+  sdpMLineIndex: z.number().int().min(0).nullable().optional(),
+  usernameFragment: z.string().max(256).nullable().optional(),
+})
+
+// Stable per-browser identifier, kept in localStorage so it survives reloads
+export const clientIdSchema = z.string().min(8).max(64)
+
+// Empty names are treated as no name
+export const displayNameSchema = z.string().trim().max(40)
+
+export const clientInfoSchema = z.object({
+  userAgent: z.string().max(512).optional(),
+  platform: z.string().max(64).optional(),
+})
+
+export const peerConnectionStateSchema = z.enum(["new", "connecting", "connected", "disconnected", "failed", "closed"])
+
+export const joinRoomSchema = z.object({
+  roomId: roomIdSchema,
+  role: roleSchema,
+  clientId: clientIdSchema.optional(),
+  // Identifies one listening tab across socket reconnects and reloads, so a returning
+  // listener keeps its roster entry
+  sessionId: clientIdSchema.optional(),
+  // Shown on the host's listener roster
+  displayName: displayNameSchema.optional(),
+  client: clientInfoSchema.optional(),
+  // How many other listeners this one is willing to forward audio to in cascade mode
+  relayCapacity: z.number().int().min(0).max(8).optional(),
+  // Proves room ownership when joining as host
+  hostToken: z.string().max(128).optional(),
+  // Lets someone else host the room alongside its owner, see DjPresence
+  djInvite: z.string().max(512).optional(),
+  // Admit a listener to a private room
+  passcode: z.string().max(64).optional(),
+  invite: z.string().max(512).optional(),
+})
+
+// Set on offers, answers and candidates for the connection that carries a stage guest's
+// microphone to the host, which runs alongside the guest's connection for listening
+const stageFlagSchema = z.boolean().optional()
+
+export const offerSchema = z.object({
+  to: socketIdSchema,
+  offer: sessionDescriptionSchema,
+  // Set when the offer restarts ICE on an existing connection rather than starting a new one
+  restart: z.boolean().optional(),
+  stage: stageFlagSchema,
+})
+
+export const answerSchema = z.object({
+  to: socketIdSchema,
+  answer: sessionDescriptionSchema,
+  stage: stageFlagSchema,
+})
+
+export const iceCandidateMessageSchema = z.object({
+  to: socketIdSchema,
+  candidate: iceCandidateSchema,
+  stage: stageFlagSchema,
+})
+
+export const removeListenerSchema = z.object({
+  listenerId: socketIdSchema,
+})
+
+export const inviteToStageSchema = z.object({
+  listenerId: socketIdSchema,
+})
+
+// The invited listener answers the host's invitation to speak on air
+export const respondToStageInviteSchema = z.object({
+  accept: z.boolean(),
+})
+
+// The DJ on air passes the broadcast on to another DJ in the room
+export const handOffSchema = z.object({
+  djId: socketIdSchema,
+})
+
+export const setMaxListenersSchema = z.object({
+  // null lifts the limit
+  maxListeners: z.number().int().min(1).max(10_000).nullable(),
+})
+
+export const setRoomModeSchema = z.object({
+  mode: roomModeSchema,
+})
+
+export const setRecordingSchema = z.object({
+  recording: z.boolean(),
+})
+
+// What the host is playing, set by hand on the host page or by DJ software
+export const trackMetadataSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  artist: z.string().trim().max(200).optional(),
+  artworkUrl: z
+    .string()
+    .trim()
+    .url()
+    .max(2048)
+    .refine((url) => /^https?:\/\//i.test(url), "Artwork must be an http(s) URL")
+    .optional(),
+  bpm: z.number().min(20).max(400).optional(),
+})
+
+export const setNowPlayingSchema = z.object({
+  // null clears the current track
+  track: trackMetadataSchema.nullable(),
+})
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500
+
+// The reactions listeners and the host can send, shown floating over the room
+export const CHAT_REACTIONS = ["🔥", "❤️", "🙌", "😂", "👏", "🎉"] as const
+
+export const chatMessageSchema = z.object({
+  text: z.string().trim().min(1).max(MAX_CHAT_MESSAGE_LENGTH),
+})
+
+export const reactionSchema = z.object({
+  emoji: z.enum(CHAT_REACTIONS),
+})
+
+export const deleteChatMessageSchema = z.object({
+  messageId: z.string().min(1).max(64),
+})
+
+// Listeners ask for tracks by title and artist; the host decides what to do with each request
+export const requestTrackSchema = trackMetadataSchema.pick({ title: true, artist: true })
+
+const requestIdSchema = z.string().min(1).max(64)
+
+export const voteTrackRequestSchema = z.object({
+  requestId: requestIdSchema,
+})
+
+export const updateTrackRequestSchema = z.object({
+  requestId: requestIdSchema,
+  // Accepted requests stay in the queue; rejected and played ones leave it
+  status: z.enum(["accepted", "rejected", "played"]),
+})
+
+export const candidateTypeSchema = z.enum(["host", "srflx", "prflx", "relay"])
+
+// One getStats() sample of an audio peer connection, averaged since the previous sample
+export const connectionStatsSchema = z.object({
+  bitrateKbps: z.number().min(0).max(100_000),
+  packetLossPercent: z.number().min(0).max(100),
+  jitterMs: z.number().min(0).max(60_000).nullable(),
+  roundTripMs: z.number().min(0).max(60_000).nullable(),
+  // Type of the local candidate in the selected pair; "relay" means the audio goes through TURN
+  candidateType: candidateTypeSchema.nullable(),
+})
+
+// Listeners report their own name, peer connection state and receive quality to the host
+export const presenceUpdateSchema = z.object({
+  displayName: displayNameSchema.optional(),
+  connectionState: peerConnectionStateSchema.optional(),
+  stats: connectionStatsSchema.optional(),
+})
+
+export type Role = z.infer<typeof roleSchema>
+export type RoomMode = z.infer<typeof roomModeSchema>
+export type SessionDescription = z.infer<typeof sessionDescriptionSchema>
+export type IceCandidate = z.infer<typeof iceCandidateSchema>
+export type JoinRoomPayload = z.infer<typeof joinRoomSchema>
+export type OfferPayload = z.infer<typeof offerSchema>
+export type AnswerPayload = z.infer<typeof answerSchema>
+export type IceCandidatePayload = z.infer<typeof iceCandidateMessageSchema>
+export type RemoveListenerPayload = z.infer<typeof removeListenerSchema>
+export type InviteToStagePayload = z.infer<typeof inviteToStageSchema>
+export type RespondToStageInvitePayload = z.infer<typeof respondToStageInviteSchema>
+export type HandOffPayload = z.infer<typeof handOffSchema>
+export type SetMaxListenersPayload = z.infer<typeof setMaxListenersSchema>
+export type SetRoomModePayload = z.infer<typeof setRoomModeSchema>
+export type SetRecordingPayload = z.infer<typeof setRecordingSchema>
+export type TrackMetadata = z.infer<typeof trackMetadataSchema>
+export type SetNowPlayingPayload = z.infer<typeof setNowPlayingSchema>
+export type ChatMessagePayload = z.infer<typeof chatMessageSchema>
+export type ReactionPayload = z.infer<typeof reactionSchema>
+export type DeleteChatMessagePayload = z.infer<typeof deleteChatMessageSchema>
+export type RequestTrackPayload = z.infer<typeof requestTrackSchema>
+export type VoteTrackRequestPayload = z.infer<typeof voteTrackRequestSchema>
+export type UpdateTrackRequestPayload = z.infer<typeof updateTrackRequestSchema>
+export type PresenceUpdatePayload = z.infer<typeof presenceUpdateSchema>
+export type ClientInfo = z.infer<typeof clientInfoSchema>
+export type PeerConnectionState = z.infer<typeof peerConnectionStateSchema>
+export type CandidateType = z.infer<typeof candidateTypeSchema>
+export type ConnectionStats = z.infer<typeof connectionStatsSchema>
+
+// A listener as shown on the host's roster
+export interface ListenerPresence {
+  listenerId: string
+  displayName: string | null
+  client: ClientInfo | null
+  joinedAt: number
+  // Set while the listener's signaling connection is down and it may still reconnect
+  disconnectedAt: number | null
+  connectionState: PeerConnectionState
+  // Last receive quality reported by the listener, null until the first report
+  stats: ConnectionStats | null
+  statsUpdatedAt: number | null
+  relayCapacity: number
+  // Who forwards audio to this listener in cascade mode: HOST_PARENT_ID or another listener's
+  // ID. null in other modes and while the listener is waiting for a parent.
+  parentId: string | null
+}
+
+// Broadcasting software (Mixxx, butt, ...) connected to the room's Icecast mount
+export interface SourcePresence {
+  connectedAt: number
+  // The source's User-Agent, e.g. "Mixxx/2.4"
+  userAgent: string | null
+  contentType: string
+}
+
+// A recording of the room's audio kept on the server
+export interface RecordingInfo {
+  recordingId: string
+  startedAt: number
+  // null while the recording is running
+  stoppedAt: number | null
+  bytes: number
+}
+
+// A track as played in the room. endedAt is null for the track that is playing now.
+export interface PlayedTrack extends TrackMetadata {
+  startedAt: number
+  endedAt: number | null
+}
+
+// A message in the room's chat. displayName is the listener's name at the time it was sent;
+// null for the host and for listeners who have not set one.
+export interface ChatMessage {
+  messageId: string
+  role: Role
+  displayName: string | null
+  text: string
+  sentAt: number
+}
+
+export type TrackRequestStatus = "pending" | UpdateTrackRequestPayload["status"]
+
+// A listener's request in the room's queue. requestedBy is the listener's name at the time it
+// asked; votes counts the requester too.
+export interface TrackRequest extends RequestTrackPayload {
+  requestId: string
+  requestedBy: string | null
+  votes: number
+  status: TrackRequestStatus
+  requestedAt: number
+}
+
+// The listener the host invited to speak on air. It is "invited" until it accepts, then "live"
+// while the host mixes its microphone into the broadcast.
+export interface StagePresence {
+  listenerId: string
+  status: "invited" | "live"
+}
+
+// Someone connected to host the room: its owner, or a DJ who joined with a DJ link. One DJ is
+// on air at a time and the others stand by until it hands off to them.
+export interface DjPresence {
+  djId: string
+  // From the DJ link; null for the owner
+  displayName: string | null
+  isOwner: boolean
+  joinedAt: number
+}
+
+// The show a room was scheduled for, shown to listeners who arrive before it starts and listed in
+// the show calendar. Times are epoch ms.
+export interface ShowInfo {
+  title: string
+  description: string | null
+  djName: string | null
+  startsAt: number
+  endsAt: number
+}
+
+// Why a listener was removed from, or refused entry to, a room
+export type RemovalReason = "kicked" | "banned" | "room-full"
+
+export type SignalingErrorCode =
+  | "invalid-payload"
+  | "invalid-room"
+  | "server-at-capacity"
+  | "room-has-host"
+  | "host-token-required"
+  | "invalid-host-token"
+  | "host-replaced"
+  | "passcode-required"
+  | "invalid-passcode"
+  | "invalid-invite"
+  | "rate-limited"
+  | "not-host"
+  | "invalid-listener"
+  | "room-full"
+  | "banned"
+  | "relay-unavailable"
+  | "invalid-source-password"
+  | "source-active"
+  | "recording-unavailable"
+  | "invalid-recording"
+  | "invalid-request"
+  | "request-limit"
+  | "stage-occupied"
+  | "invalid-dj"
+  | "slug-taken"
+  | "session-in-use"
+
+export interface SignalingError {
+  code: SignalingErrorCode
+  message: string
+  event?: string
+}
+
+// Events emitted by clients and handled by the server.
+export interface ClientToServerEvents {
+  "join-room": (payload: JoinRoomPayload) => void
+  offer: (payload: OfferPayload) => void
+  answer: (payload: AnswerPayload) => void
+  "ice-candidate": (payload: IceCandidatePayload) => void
+  "mute-stream": () => void
+  "unmute-stream": () => void
+  // Host moderation
+  "kick-listener": (payload: RemoveListenerPayload) => void
+  "ban-listener": (payload: RemoveListenerPayload) => void
+  "set-max-listeners": (payload: SetMaxListenersPayload) => void
+  // Stage: the host invites one listener at a time to speak on air. Either of them can end it.
+  "invite-to-stage": (payload: InviteToStagePayload) => void
+  "respond-to-stage-invite": (payload: RespondToStageInvitePayload) => void
+  "leave-stage": () => void
+  // Back-to-back sets: the DJ on air passes the broadcast, and its listeners, to another DJ
+  "hand-off": (payload: HandOffPayload) => void
+  "set-room-mode": (payload: SetRoomModePayload) => void
+  // Starts or stops recording the room on the server
+  "set-recording": (payload: SetRecordingPayload) => void
+  "set-now-playing": (payload: SetNowPlayingPayload) => void
+  // Chat, open to everyone in the room; only the host can delete messages
+  "send-chat-message": (payload: ChatMessagePayload) => void
+  "send-reaction": (payload: ReactionPayload) => void
+  "delete-chat-message": (payload: DeleteChatMessagePayload) => void
+  // Track requests: listeners request and vote, the host accepts, rejects or plays them
+  "request-track": (payload: RequestTrackPayload) => void
+  "vote-track-request": (payload: VoteTrackRequestPayload) => void
+  "update-track-request": (payload: UpdateTrackRequestPayload) => void
+  "presence-update": (payload: PresenceUpdatePayload) => void
+}
+
+// Events emitted by the server to hosts and listeners.
+export interface ServerToClientEvents {
+  // hostToken is only sent to a host that just claimed the room and must keep it to reclaim it.
+  // show is set when the room was created for a scheduled show.
+  "room-joined": (payload: {
+    roomId: string
+    role: Role
+    isPrivate: boolean
+    hostToken?: string
+    show: ShowInfo | null
+  }) => void
+  // Sent to listeners that join while a DJ is on air, and to everyone when one goes on air after nobody was
+  "host-connected": () => void
+  // The host may reclaim the room until reclaimableUntil (epoch ms) before it is released
+  "host-disconnected": (payload: { reclaimableUntil: number }) => void
+  // Sent to the host for each new listener, and for every connected listener already present when
+  // the host joins
+  "listener-joined": (payload: { listenerId: string; listener: ListenerPresence }) => void
+  // Also sent for listeners that are reconnecting when the host joins, which it adds to the roster
+  "listener-updated": (payload: { listener: ListenerPresence }) => void
+  // A listener that dropped came back on a new socket; its roster entry moves to the new ID
+  "listener-reconnected": (payload: { previousListenerId: string; listener: ListenerPresence }) => void
+  "listener-left": (payload: { listenerId: string }) => void
+  "listener-count-updated": (payload: { count: number }) => void
+  "max-listeners-updated": (payload: { maxListeners: number | null }) => void
+  // Cascade mode: sent to the host or listener that should start, or stop, forwarding the
+  // audio to a listener. The parent sends the offer.
+  "child-assigned": (payload: { listenerId: string }) => void
+  "child-removed": (payload: { listenerId: string }) => void
+  // Sent to the host when it joins and when it changes the mode. relayAvailable tells the
+  // host whether this server can relay at all.
+  "room-mode-updated": (payload: { mode: RoomMode; relayAvailable: boolean }) => void
+  // Sent to the host when it joins and when an external source connects or disconnects. While
+  // one is connected it provides the room's audio and the host cannot publish.
+  "source-updated": (payload: { source: SourcePresence | null }) => void
+  // Sent to the host when it joins and whenever the number of HTTP stream listeners changes.
+  // While there are any, the host publishes to the relay whatever the room's mode.
+  "http-listeners-updated": (payload: { count: number }) => void
+  // Sent to the host when it joins and when a recording starts or stops. While one runs, the
+  // host publishes to the relay whatever the room's mode.
+  "recording-updated": (payload: { recording: RecordingInfo | null }) => void
+  // Sent to everyone in the room when they join and whenever the track changes
+  "now-playing-updated": (payload: { track: PlayedTrack | null }) => void
+  // Sent to everyone in the room when they join: the most recent messages, oldest first
+  "chat-history": (payload: { messages: ChatMessage[] }) => void
+  "chat-message": (payload: { message: ChatMessage }) => void
+  "chat-message-deleted": (payload: { messageId: string }) => void
+  reaction: (payload: { emoji: ReactionPayload["emoji"]; role: Role }) => void
+  // Sent to everyone in the room when they join and whenever the queue changes: the open
+  // requests, accepted ones first, then by votes
+  "track-requests-updated": (payload: { requests: TrackRequest[] }) => void
+  // Sent to everyone in the room when the host accepts, rejects or plays a request
+  "track-request-updated": (payload: { request: TrackRequest }) => void
+  // Sent to a listener right before it is removed from the room, or instead of room-joined when refused
+  "removed-from-room": (payload: { reason: RemovalReason; message: string }) => void
+  // Sent to every DJ in the room when they join and whenever a DJ joins, leaves or hands off.
+  // onAirId is the DJ broadcasting now, null while nobody is.
+  "djs-updated": (payload: { djs: DjPresence[]; onAirId: string | null }) => void
+  // Sent to the host and the listener on stage, or invited to it, whenever that changes
+  "stage-updated": (payload: { stage: StagePresence | null }) => void
+  offer: (payload: { from: string; offer: SessionDescription; restart?: boolean; stage?: boolean }) => void
+  answer: (payload: { from: string; answer: SessionDescription; stage?: boolean }) => void
+  "ice-candidate": (payload: { from: string; candidate: IceCandidate; stage?: boolean }) => void
+  "host-muted": () => void
+  "host-unmuted": () => void
+  error: (payload: SignalingError) => void
+}
+
+// Inbound payload validators, keyed by event name. Events without a payload are absent.
+export const clientEventSchemas = {
+  "join-room": joinRoomSchema,
+  offer: offerSchema,
+  answer: answerSchema,
+  "ice-candidate": iceCandidateMessageSchema,
+  "kick-listener": removeListenerSchema,
+  "ban-listener": removeListenerSchema,
+  "set-max-listeners": setMaxListenersSchema,
+  "invite-to-stage": inviteToStageSchema,
+  "respond-to-stage-invite": respondToStageInviteSchema,
+  "hand-off": handOffSchema,
+  "set-room-mode": setRoomModeSchema,
+  "set-recording": setRecordingSchema,
+  "set-now-playing": setNowPlayingSchema,
+  "send-chat-message": chatMessageSchema,
+  "send-reaction": reactionSchema,
+  "delete-chat-message": deleteChatMessageSchema,
+  "request-track": requestTrackSchema,
+  "vote-track-request": voteTrackRequestSchema,
+  "update-track-request": updateTrackRequestSchema,
+  "presence-update": presenceUpdateSchema,
+} satisfies { [E in keyof ClientToServerEvents]?: z.ZodType<Parameters<ClientToServerEvents[E]>[0]> }
+
+export type ValidatedClientEvent = keyof typeof clientEventSchemas
+
+export function parseClientEvent<E extends ValidatedClientEvent>(
+  event: E,
+  payload: unknown,
+): { success: true; data: z.infer<(typeof clientEventSchemas)[E]> } | { success: false; error: SignalingError } {
+  const result = clientEventSchemas[event].safeParse(payload)
+
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue?.path.join(".")
+    return {
+      success: false,
+      error: {
+        code: "invalid-payload",
+        message: `Invalid ${event} payload${path ? ` at "${path}"` : ""}: ${issue?.message ?? "malformed message"}`,
+        event,
+      },
+    }
+  }
+
+  return { success: true, data: result.data as z.infer<(typeof clientEventSchemas)[E]> }
+}
@@ -0,0 +1,78 @@
+// The show calendar: scheduled shows as an iCalendar feed (RFC 5545), which calendar apps
+// subscribe to by URL and refresh by themselves as shows are added.
+import type { ShowInfo } from "@/lib/signaling"
+
+// Content lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75
+
+export interface CalendarShow {
+  roomId: string
+  show: ShowInfo
+}
+
+// origin is where the listen pages are served, e.g. "https://radio.example.com"
+export function showsCalendar(shows: CalendarShow[], { origin, now = Date.now() }: { origin: string; now?: number }) {
+  const host = new URL(origin).hostname
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//livestream-audio//Shows//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Upcoming shows",
+  ]
+
+  for (const { roomId, show } of shows) {
+    const url = `${origin}/listen/${encodeURIComponent(roomId)}`
+    const description = [show.djName && `DJ: ${show.djName}`, show.description, `Listen at ${url}`]
+      .filter(Boolean)
+      .join("\n\n")
+
+    lines.push(
+      "BEGIN:VEVENT",
+      // The room ID is the show's stable identity, so calendars update the event when it moves
+      `UID:${roomId}@${host}`,
+      `DTSTAMP:${icalTime(now)}`,
+      `DTSTART:${icalTime(show.startsAt)}`,
+      `DTEND:${icalTime(show.endsAt)}`,
+      `SUMMARY:${icalText(show.title)}`,
+      `DESCRIPTION:${icalText(description)}`,
+      `URL:${url}`,
+      "END:VEVENT",
+    )
+  }
+
+  lines.push("END:VCALENDAR")
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
+
+// UTC date-time, e.g. 20261019T200000Z
+function icalTime(ms: number) {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function icalText(value: string) {
+  return value.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n")
+}
+
+// Continuation lines start with a space; characters are never split across lines
+function foldLine(line: string) {
+  const parts: string[] = []
+  let part = ""
+  let octets = 0
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(part)
+      part = ""
+      octets = 0
+    }
+    part += char
+    octets += size
+  }
+
+  parts.push(part)
+  return parts.join("\r\n ")
+}
@@ -0,0 +1,115 @@
+import { randomUUID } from "crypto"
+import os from "os"
+import Redis from "ioredis"
+import { createAdapter } from "@socket.io/redis-adapter"
+import type { SignalingServer } from "./signaling"
+
+// Instances that have not reported within this window are left out of cluster totals
+const HEARTBEAT_INTERVAL_MS = 10_000
+const INSTANCE_TTL_MS = 3 * HEARTBEAT_INTERVAL_MS
+
+export const instanceId = `${os.hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`
+
+export function createRedisClient(url: string, purpose: string) {
+  const redis = new Redis(url, { maxRetriesPerRequest: 3 })
+  redis.on("error", (error) => {
+    console.error(`Redis ${purpose} error:`, error.message)
+  })
+  return redis
+}
+
+// Routes room broadcasts and socket-to-socket signaling (offers, answers, ICE candidates)
+// through Redis pub/sub so sockets connected to different instances can reach each other.
+export function attachClusterAdapter(io: SignalingServer, redis: Redis, keyPrefix: string) {
+  const pubClient = redis.duplicate()
+  const subClient = redis.duplicate()
+  io.adapter(createAdapter(pubClient, subClient, { key: `${keyPrefix}socket.io` }))
+
+  return async () => {
+    await Promise.allSettled([pubClient.quit(), subClient.quit()])
+  }
+}
+
+export interface ClusterTotals {
+  instances: number
+  connections: number
+}
+
+interface InstanceReport {
+  connections: number
+  updatedAt: number
+}
+
+// Tracks connection counts across instances. Each instance periodically writes its own
+// count to a shared hash; without Redis the totals are just this process.
+export class ClusterStats {
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    private readonly redis: Redis | null,
+    private readonly keyPrefix: string,
+    private readonly localConnections: () => number,
+  ) {}
+
+  private get instancesKey() {
+    return `${this.keyPrefix}instances`
+  }
+
+  start() {
+    if (!this.redis || this.timer) return
+
+    const report = () => {
+      this.report().catch((error) => {
+        console.error("Cluster heartbeat failed:", error.message)
+      })
+    }
+
+    report()
+    this.timer = setInterval(report, HEARTBEAT_INTERVAL_MS)
+    this.timer.unref()
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.redis?.hdel(this.instancesKey, instanceId)
+  }
+
+  async totals(): Promise<ClusterTotals> {
+    if (!this.redis) {
+      return { instances: 1, connections: this.localConnections() }
+    }
+
+    const now = Date.now()
+    const entries = await this.redis.hgetall(this.instancesKey)
+    const totals: ClusterTotals = { instances: 0, connections: 0 }
+    const expired: string[] = []
+
+    for (const [id, raw] of Object.entries(entries)) {
+      // Our own count is always current, the others are at most one heartbeat old
+      const report: InstanceReport =
+        id === instanceId ? { connections: this.localConnections(), updatedAt: now } : JSON.parse(raw)
+
+      if (now - report.updatedAt > INSTANCE_TTL_MS) {
+        expired.push(id)
+        continue
+      }
+
+      totals.instances++
+      totals.connections += report.connections
+    }
+
+    if (expired.length > 0) {
+      await this.redis.hdel(this.instancesKey, ...expired)
+    }
+
+    return totals
+  }
+
+  private async report() {
+    const report: InstanceReport = { connections: this.localConnections(), updatedAt: Date.now() }
+    await this.redis?.hset(this.instancesKey, instanceId, JSON.stringify(report))
+  }
+}
@@ -0,0 +1,75 @@
+import { randomBytes } from "crypto"
+
+// Cloud Run optimized configuration
+export const config = {
+  port: Number.parseInt(process.env.PORT ?? "") || 8080, // Cloud Run sets PORT
+  host: process.env.HOST || "0.0.0.0",
+  domain: process.env.DOMAIN || null,
+  corsOrigin: process.env.CORS_ORIGIN || "*",
+  nodeEnv: process.env.NODE_ENV || "production",
+  maxRooms: Number.parseInt(process.env.MAX_ROOMS ?? "") || 200,
+  roomTimeout: Number.parseInt(process.env.ROOM_TIMEOUT_HOURS ?? "") || 12,
+  hostReconnectGrace: Number.parseInt(process.env.HOST_RECONNECT_GRACE_SECONDS ?? "") || 120,
+  // How long a dropped listener keeps its roster entry while it reconnects
+  listenerReconnectGrace: Number.parseInt(process.env.LISTENER_RECONNECT_GRACE_SECONDS ?? "") || 30,
+  // Signs private room invite links. Set it explicitly when running more than one instance,
+  // otherwise each instance generates its own and rejects invites from the others.
+  inviteSecret: process.env.INVITE_SECRET || randomBytes(32).toString("hex"),
+  stunServers: process.env.STUN_SERVERS
+    ? process.env.STUN_SERVERS.split(",")
+    : ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302", "stun:stun2.l.google.com:19302"],
+  // TURN relays for listeners behind symmetric NAT. Credentials are minted per request from
+  // the secret shared with the TURN server (coturn's use-auth-secret / static-auth-secret).
+  turnServers: process.env.TURN_SERVERS ? process.env.TURN_SERVERS.split(",") : [],
+  turnSecret: process.env.TURN_SECRET || null,
+  turnCredentialTtl: Number.parseInt(process.env.TURN_CREDENTIAL_TTL_SECONDS ?? "") || 3600,
+  // Rooms can switch to relay mode, where the server forwards the host's audio to listeners
+  relayEnabled: process.env.RELAY_ENABLED !== "false",
+  // UDP ports the relay's peer connections use, e.g. "40000-40999", so a firewall can allow them
+  relayPortRange: parsePortRange(process.env.RELAY_PORT_RANGE),
+  // Ogg/Opus over HTTP at /stream/:roomId for listeners without WebRTC; needs the relay
+  httpStreamEnabled: process.env.HTTP_STREAM_ENABLED !== "false",
+  // Port for Icecast source clients (Mixxx, butt, ...) to broadcast on; disabled when unset
+  icecastPort: Number.parseInt(process.env.ICECAST_PORT ?? "") || null,
+  // Used to convert MP3 sources to Opus
+  ffmpegPath: process.env.FFMPEG_PATH || "ffmpeg",
+  // Hosts can record their room on the server through the relay. Recordings are kept for
+  // the retention period after they stop, then deleted.
+  recordingEnabled: process.env.RECORDING_ENABLED !== "false",
+  recordingsDir: process.env.RECORDINGS_DIR || "recordings",
+  recordingRetention: Number.parseInt(process.env.RECORDING_RETENTION_HOURS ?? "") || 72,
+  // Cascade rooms: listeners the host feeds directly, and the longest chain of listeners below it
+  cascadeMaxHostChildren: Number.parseInt(process.env.CASCADE_MAX_HOST_CHILDREN ?? "") || 4,
+  cascadeMaxDepth: Number.parseInt(process.env.CASCADE_MAX_DEPTH ?? "") || 4,
+  // Cloud Run specific settings
+  maxConnections: Number.parseInt(process.env.MAX_CONNECTIONS ?? "") || 100,
+  connectionTimeout: Number.parseInt(process.env.CONNECTION_TIMEOUT ?? "") || 30000,
+  // Shared room storage; rooms stay in process memory when unset
+  redisUrl: process.env.REDIS_URL || null,
+  redisKeyPrefix: process.env.REDIS_KEY_PREFIX || "livestream:",
+}
+
+export type Config = typeof config
+
+function parsePortRange(value: string | undefined): [number, number] | undefined {
+  const [min, max] = (value ?? "").split("-").map((port) => Number.parseInt(port, 10))
+  return min > 0 && max > min ? [min, max] : undefined
+}
+
+// Get deployment info
+function getDeploymentInfo() {
+  const isCloudRun = process.env.K_SERVICE !== undefined
+  const serviceUrl = process.env.K_SERVICE
+    ? `https://${process.env.K_SERVICE}-${(process.env.K_REVISION ?? "").split("-")[0]}.a.run.app`
+    : null
+
+  return {
+    isCloudRun,
+    serviceUrl,
+    revision: process.env.K_REVISION || "local",
+    service: process.env.K_SERVICE || "local",
+  }
+}
+
+export const deploymentInfo = getDeploymentInfo()
+export const publicDomain = config.domain || deploymentInfo.serviceUrl || `localhost:${config.port}`
@@ -0,0 +1,33 @@
+import { createHmac, randomBytes } from "crypto"
+import type { IceConfig, IceServer } from "@/lib/ice"
+import type { Config } from "./config"
+
+// Time-limited TURN credentials following the TURN REST API scheme that coturn implements:
+// the username is "<expiry unix time>:<user>" and the password is the base64 HMAC-SHA1 of
+// the username keyed with the shared secret, so the TURN server can check it without a
+// user database and refuses it once the expiry has passed.
+export function turnCredentials(secret: string, ttlSeconds: number, user: string, now = Date.now()) {
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds
+  const username = `${expiresAt}:${user}`
+  const credential = createHmac("sha1", secret).update(username).digest("base64")
+  return { username, credential, expiresAt: expiresAt * 1000 }
+}
+
+// The ICE servers handed to host and listener pages. TURN servers are only included when a
+// shared secret is configured, each request getting its own credentials.
+export function iceConfig(config: Config, user?: string, now = Date.now()): IceConfig {
+  const iceServers: IceServer[] = config.stunServers.map((urls) => ({ urls }))
+
+  if (!config.turnSecret || config.turnServers.length === 0) {
+    return { iceServers, expiresAt: null }
+  }
+
+  const { username, credential, expiresAt } = turnCredentials(
+    config.turnSecret,
+    config.turnCredentialTtl,
+    user ?? randomBytes(6).toString("hex"),
+    now,
+  )
+  iceServers.push({ urls: config.turnServers, username, credential })
+  return { iceServers, expiresAt }
+}
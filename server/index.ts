@@ -0,0 +1,255 @@
+import express from "express"
+import http from "http"
+import path from "path"
+import next from "next"
+import { Server } from "socket.io"
+import { clientIdSchema } from "@/lib/signaling"
+import { config, deploymentInfo, publicDomain } from "./config"
+import { attachClusterAdapter, ClusterStats, createRedisClient, instanceId } from "./cluster"
+import { iceConfig } from "./ice"
+import { IcecastIngest } from "./ingest"
+import { RecordingService } from "./recordings"
+import { AudioRelay } from "./relay"
+import { createRoomStore, RoomService } from "./rooms"
+import { createNowPlayingRouter } from "./routes/now-playing"
+import { createRecordingsRouter } from "./routes/recordings"
+import { createRoomsRouter } from "./routes/rooms"
+import { createStreamRouter } from "./routes/stream"
+import { registerSignaling, type SignalingServer } from "./signaling"
+
+const app = express()
+const server = http.createServer(app)
+
+// The Next.js pages are served by this same process so they share the Socket.IO server
+const nextApp = next({ dev: config.nodeEnv !== "production", hostname: config.host, port: config.port })
+const handleNextRequest = nextApp.getRequestHandler()
+
+const io: SignalingServer = new Server(server, {
+  cors: {
+    origin: config.corsOrigin,
+    methods: ["GET", "POST"],
+    credentials: true,
+  },
+  allowEIO3: true,
+  transports: ["websocket", "polling"],
+  pingTimeout: config.connectionTimeout,
+  pingInterval: 25000,
+  maxHttpBufferSize: 1e6, // 1MB limit for Cloud Run
+  connectTimeout: config.connectionTimeout,
+  destroyUpgrade: false, // Next.js handles its own upgrade requests
+})
+
+// With Redis configured, rooms and signaling are shared by every instance of the service
+const redis = config.redisUrl ? createRedisClient(config.redisUrl, "rooms") : null
+const closeClusterAdapter = redis ? attachClusterAdapter(io, redis, config.redisKeyPrefix) : null
+
+// Room management with Cloud Run optimizations
+const rooms = new RoomService(createRoomStore(redis, config.redisKeyPrefix), {
+  maxRooms: config.maxRooms,
+  roomTimeoutMs: config.roomTimeout * 60 * 60 * 1000,
+  hostGraceMs: config.hostReconnectGrace * 1000,
+  inviteSecret: config.inviteSecret,
+  cascade: { maxHostChildren: config.cascadeMaxHostChildren, maxDepth: config.cascadeMaxDepth },
+})
+// Forwards the host's audio to listeners in rooms that use relay mode
+const relay = config.relayEnabled ? new AudioRelay(io, rooms, config, !!redis) : null
+// Hosts record their sets on the server from the audio the relay receives
+const recordings = relay && config.recordingEnabled ? new RecordingService(io, rooms, relay, config) : null
+const signaling = registerSignaling(io, rooms, config, relay, recordings)
+const clusterStats = new ClusterStats(redis, config.redisKeyPrefix, signaling.connectionCount)
+// Broadcasting software connects on a port of its own and is relayed like a host
+const ingest = relay && config.icecastPort ? new IcecastIngest(rooms, relay, signaling, config) : null
+
+// Middleware
+app.use(express.static("public"))
+app.use(express.json({ limit: "1mb" }))
+
+// Request logging for Cloud Run
+app.use((req, res, next) => {
+  if (config.nodeEnv === "production") {
+    console.log(`${new Date().toISOString()} ${req.method} ${req.path} - ${req.ip}`)
+  }
+  next()
+})
+
+// CORS headers
+app.use((req, res, next) => {
+  res.header("Access-Control-Allow-Origin", config.corsOrigin)
+  res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS")
+  res.header("Access-Control-Allow-Headers", "Origin, X-Requested-With, Content-Type, Accept, Authorization")
+  if (req.method === "OPTIONS") {
+    res.sendStatus(200)
+  } else {
+    next()
+  }
+})
+
+// API Routes
+app.get("/api/config", (req, res) => {
+  res.json({
+    domain: publicDomain,
+    port: config.port,
+    stunServers: config.stunServers,
+    turnEnabled: !!config.turnSecret && config.turnServers.length > 0,
+    maxRooms: config.maxRooms,
+    relayEnabled: config.relayEnabled,
+    httpStreamEnabled: !!relay && config.httpStreamEnabled,
+    icecastPort: ingest ? config.icecastPort : null,
+    recordingEnabled: !!recordings,
+    isCloudRun: deploymentInfo.isCloudRun,
+    service: deploymentInfo.service,
+    revision: deploymentInfo.revision,
+  })
+})
+
+// ICE servers for peer connections, with freshly minted TURN credentials when TURN is configured.
+// The client ID only labels the credentials in the TURN server's logs.
+app.get("/api/ice-servers", (req, res) => {
+  const clientId = clientIdSchema.safeParse(req.query.clientId)
+  res.set("Cache-Control", "no-store")
+  res.json(iceConfig(config, clientId.success ? clientId.data : undefined))
+})
+
+app.use(createRoomsRouter(rooms, clusterStats, config))
+app.use(createNowPlayingRouter(rooms, signaling))
+// Listeners without WebRTC get the room's audio over plain HTTP, received through the relay
+if (relay && config.httpStreamEnabled) {
+  app.use(createStreamRouter(rooms, relay))
+}
+if (recordings) {
+  app.use(createRecordingsRouter(rooms, recordings))
+}
+
+// Health check endpoint for Cloud Run
+app.get("/api/health", async (req, res) => {
+  const memUsage = process.memoryUsage()
+  const uptime = process.uptime()
+  const cluster = await clusterStats.totals()
+
+  res.json({
+    status: "ok",
+    timestamp: new Date().toISOString(),
+    uptime: Math.floor(uptime),
+    rooms: await rooms.countRooms(),
+    connections: cluster.connections,
+    instance: {
+      id: instanceId,
+      connections: signaling.connectionCount(),
+    },
+    instances: cluster.instances,
+    memory: {
+      used: Math.round(memUsage.heapUsed / 1024 / 1024),
+      total: Math.round(memUsage.heapTotal / 1024 / 1024),
+    },
+    deployment: deploymentInfo,
+    version: "1.0.0",
+    environment: config.nodeEnv,
+  })
+})
+
+// Root health check for load balancers
+app.get("/", (req, res) => {
+  if (req.headers["user-agent"]?.includes("GoogleHC")) {
+    // Google Health Check
+    res.status(200).send("OK")
+  } else {
+    // Serve the main page
+    res.sendFile(path.join(process.cwd(), "public", "index.html"))
+  }
+})
+
+// Everything else (host/listen pages, assets) is rendered by Next.js
+app.use((req, res) => handleNextRequest(req, res))
+
+async function cleanupRooms() {
+  // Sockets on every instance, so members left behind by a crashed instance get dropped
+  const connected = new Set((await io.fetchSockets()).map((socket) => socket.id))
+  await rooms.pruneMembers((socketId) => connected.has(socketId))
+  await rooms.expireRooms()
+  await recordings?.cleanup()
+}
+
+// Clean up old rooms periodically (Cloud Run optimized)
+setInterval(
+  () => {
+    cleanupRooms().catch((error) => {
+      console.error("Room cleanup failed:", error)
+    })
+  },
+  30 * 60 * 1000, // Run every 30 minutes (more frequent for Cloud Run)
+)
+
+// Graceful shutdown for Cloud Run
+const gracefulShutdown = () => {
+  console.log("Received shutdown signal, closing server gracefully...")
+
+  ingest?.close()
+  recordings?.close()
+  relay?.close()
+
+  server.close(() => {
+    console.log("HTTP server closed")
+
+    // Close all socket connections
+    io.close(async () => {
+      console.log("Socket.io server closed")
+      await clusterStats.stop()
+      await closeClusterAdapter?.()
+      await redis?.quit()
+      process.exit(0)
+    })
+  })
+
+  // Force close after 10 seconds
+  setTimeout(() => {
+    console.log("Forcing shutdown...")
+    process.exit(1)
+  }, 10000)
+}
+
+process.on("SIGTERM", gracefulShutdown)
+process.on("SIGINT", gracefulShutdown)
+
+// Start server
+nextApp.prepare().then(() => {
+  const handleNextUpgrade = nextApp.getUpgradeHandler()
+  server.on("upgrade", (req, socket, head) => {
+    if (!req.url?.startsWith("/socket.io")) {
+      handleNextUpgrade(req, socket, head)
+    }
+  })
+
+  server.listen(config.port, config.host, () => {
+    clusterStats.start()
+    if (ingest && config.icecastPort) {
+      ingest.listen(config.icecastPort, config.host)
+    }
+
+    console.log(`🎵 LiveStream Audio Server`)
+    console.log(`📡 Running on ${config.host}:${config.port}`)
+    console.log(`🌐 Environment: ${config.nodeEnv}`)
+
+    if (deploymentInfo.isCloudRun) {
+      console.log(`☁️  Cloud Run Service: ${deploymentInfo.service}`)
+      console.log(`🔄 Revision: ${deploymentInfo.revision}`)
+      console.log(`🔗 Public URL: ${publicDomain}`)
+    } else if (config.domain) {
+      console.log(`🔗 Public domain: ${config.domain}`)
+    } else {
+      console.log(`🏠 Local access: http://localhost:${config.port}`)
+    }
+
+    console.log(`🎯 Max rooms: ${config.maxRooms}`)
+    console.log(`👥 Max connections: ${config.maxConnections}`)
+    console.log(`⏰ Room timeout: ${config.roomTimeout} hours`)
+    if (ingest) {
+      console.log(`🎛️  Icecast sources: port ${config.icecastPort}`)
+    }
+    if (recordings) {
+      console.log(`⏺️  Recordings: ${config.recordingsDir} (kept ${config.recordingRetention} hours)`)
+    }
+    console.log(`🧩 Instance: ${instanceId}${redis ? " (clustered via Redis)" : ""}`)
+  })
+})
+
+export { app, server, io }
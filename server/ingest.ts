@@ -0,0 +1,371 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process"
+import { randomInt } from "crypto"
+import { once } from "events"
+import { STATUS_CODES } from "http"
+import net from "net"
+import { MediaStreamTrack, RtpHeader, RtpPacket } from "werift"
+import { roomIdSchema, trackMetadataSchema, type SourcePresence, type TrackMetadata } from "@/lib/signaling"
+import type { Config } from "./config"
+import { OggOpusReader, opusPacketSamples } from "./ogg"
+import type { AudioRelay } from "./relay"
+import { RoomError, type RoomService } from "./rooms"
+import { basicAuthPassword, roomErrorStatus } from "./routes/http"
+import type { Signaling } from "./signaling"
+
+const MAX_HEADER_BYTES = 16 * 1024
+// Like Icecast's source-timeout: a source that sends nothing for this long is dropped
+const SOURCE_TIMEOUT_MS = 10_000
+// Payload type browsers use for Opus; the relay rewrites it to whatever each listener negotiated
+const OPUS_PAYLOAD_TYPE = 111
+const PACER_INTERVAL_MS = 10
+// Audio buffered beyond this is dropped, and a source this far behind starts over
+const MAX_QUEUED_PACKETS = 250
+const MAX_LATE_MS = 500
+
+type SourceFormat = "ogg" | "mp3"
+
+interface SourceRequest {
+  method: string
+  path: string
+  headers: Record<string, string>
+}
+
+// Accepts broadcasting software (Mixxx, butt, ...) speaking the Icecast source protocol: the
+// legacy SOURCE method or an HTTP PUT to /<room ID>, with basic auth as "source" and the
+// room's source password. Ogg/Opus streams are passed on as they are; MP3 is converted to
+// Opus with ffmpeg. The audio reaches listeners through the relay, exactly like a host's.
+// Track changes come in as Icecast metadata updates, or in the comments of Ogg streams.
+//
+// Sources stream a request body without a length, which Node's HTTP server cannot read, so
+// the protocol is handled on a plain TCP port of its own.
+export class IcecastIngest {
+  private readonly server = net.createServer((socket) => this.accept(socket))
+  private readonly sockets = new Set<net.Socket>()
+
+  constructor(
+    private readonly rooms: RoomService,
+    private readonly relay: AudioRelay,
+    private readonly signaling: Signaling,
+    private readonly config: Config,
+  ) {}
+
+  listen(port: number, host: string) {
+    this.server.listen(port, host)
+  }
+
+  close() {
+    this.server.close()
+    for (const socket of this.sockets) {
+      socket.destroy()
+    }
+  }
+
+  private accept(socket: net.Socket) {
+    this.sockets.add(socket)
+    socket.on("close", () => this.sockets.delete(socket))
+    socket.on("error", () => socket.destroy())
+    socket.setTimeout(SOURCE_TIMEOUT_MS, () => socket.destroy())
+
+    let head = Buffer.alloc(0)
+    const readHead = (chunk: Buffer) => {
+      head = Buffer.concat([head, chunk])
+      const end = head.indexOf("\r\n\r\n")
+      if (end === -1) {
+        if (head.length > MAX_HEADER_BYTES) respond(socket, 431)
+        return
+      }
+
+      socket.off("data", readHead)
+      socket.pause()
+      this.start(socket, parseRequest(head.subarray(0, end).toString("latin1")), head.subarray(end + 4)).catch(
+        (error) => {
+          if (error instanceof RoomError) {
+            respond(socket, roomErrorStatus(error))
+          } else {
+            console.error("Icecast source failed:", error)
+            respond(socket, 500)
+          }
+        },
+      )
+    }
+    socket.on("data", readHead)
+  }
+
+  private async start(socket: net.Socket, request: SourceRequest, body: Buffer) {
+    if (request.method === "GET" && request.path.startsWith("/admin/metadata")) {
+      await this.updateMetadata(socket, request)
+      return
+    }
+    if (request.method !== "SOURCE" && request.method !== "PUT") {
+      respond(socket, 405)
+      return
+    }
+
+    const roomId = roomIdSchema.safeParse(mountRoomId(request.path.split("?")[0]))
+    const contentType = request.headers["content-type"]?.split(";")[0].trim().toLowerCase() ?? ""
+    const format = sourceFormat(contentType)
+    if (!roomId.success) {
+      respond(socket, 404)
+      return
+    }
+    if (!format) {
+      respond(socket, 415)
+      return
+    }
+
+    // Started first so a missing ffmpeg turns the source away instead of claiming the room
+    const transcoder = format === "mp3" ? await startTranscoder(this.config.ffmpegPath) : null
+    if (format === "mp3" && !transcoder) {
+      respond(socket, 415)
+      return
+    }
+    const source: SourcePresence = {
+      connectedAt: Date.now(),
+      userAgent: request.headers["user-agent"]?.slice(0, 128) ?? null,
+      contentType,
+    }
+
+    let connected: Awaited<ReturnType<RoomService["connectSource"]>>
+    try {
+      connected = await this.rooms.connectSource(roomId.data, basicAuthPassword(request.headers.authorization), source)
+    } catch (error) {
+      transcoder?.kill()
+      throw error
+    }
+    if (socket.destroyed) {
+      transcoder?.kill()
+      await this.disconnect(roomId.data)
+      return
+    }
+
+    const track = new MediaStreamTrack({ kind: "audio" })
+    const pacer = new OpusPacer(rtpWriter(track))
+    const reader = new OggOpusReader(
+      (packet) => pacer.push(packet),
+      (tags) => this.tagsChanged(roomId.data, source, tags),
+    )
+
+    let input: (chunk: Buffer) => void = transcoder
+      ? (chunk) => transcoder.stdin.write(chunk)
+      : (chunk) => reader.write(chunk)
+    if (request.headers["transfer-encoding"]?.toLowerCase().includes("chunked")) {
+      input = dechunker(input)
+    }
+    transcoder?.stdout.on("data", (chunk: Buffer) => reader.write(chunk))
+    transcoder?.on("exit", () => socket.destroy())
+
+    socket.once("close", () => {
+      pacer.stop()
+      transcoder?.kill()
+      track.stop()
+      this.relay.unpublishTrack(roomId.data, track)
+      this.disconnect(roomId.data).catch((error) => {
+        console.error(`Could not release the source of room ${roomId.data}:`, error)
+      })
+    })
+
+    // PUT sources may wait for permission to send the body
+    socket.write(request.headers.expect?.toLowerCase() === "100-continue" ? continueResponse : okResponse)
+    if (body.length > 0) input(body)
+    socket.on("data", input)
+    socket.resume()
+
+    await this.relay.publishTrack(roomId.data, track)
+    await this.signaling.announceSource(connected.room, connected.previousMode)
+    console.log(`Icecast source connected to room ${roomId.data} (${source.userAgent ?? "unknown client"})`)
+  }
+
+  // Icecast's metadata update, which source clients send to the same port when the track
+  // changes: GET /admin/metadata?mount=/<room ID>&mode=updinfo&song=Artist - Title
+  private async updateMetadata(socket: net.Socket, request: SourceRequest) {
+    const query = new URLSearchParams(request.path.split("?")[1] ?? "")
+    const roomId = roomIdSchema.safeParse(mountRoomId(query.get("mount") ?? ""))
+    const track = trackFromQuery(query)
+    if (!roomId.success || query.get("mode") !== "updinfo" || track === undefined) {
+      respond(socket, 400)
+      return
+    }
+
+    const password = basicAuthPassword(request.headers.authorization)
+    const room = await this.rooms.setNowPlaying(roomId.data, { sourcePassword: password }, track)
+    this.signaling.announceNowPlaying(room)
+    socket.end(metadataResponse)
+  }
+
+  // Ogg sources start a new chained stream for each track, with its comment header
+  private tagsChanged(roomId: string, source: SourcePresence, tags: Record<string, string>) {
+    const track = trackMetadataSchema.safeParse({ title: tags.title, artist: tags.artist || undefined })
+    if (!track.success) return
+
+    this.rooms
+      .setNowPlaying(roomId, { source }, track.data)
+      .then((room) => this.signaling.announceNowPlaying(room))
+      .catch((error) => console.error(`Could not update the track of room ${roomId}:`, error))
+  }
+
+  private async disconnect(roomId: string) {
+    const room = await this.rooms.disconnectSource(roomId)
+    if (room) {
+      await this.signaling.announceSource(room, room.mode)
+    }
+  }
+}
+
+const okResponse = "HTTP/1.0 200 OK\r\n\r\n"
+const metadataResponse =
+  "HTTP/1.0 200 OK\r\nContent-Type: text/xml\r\nConnection: close\r\n\r\n" +
+  '<?xml version="1.0"?>\n' +
+  "<iceresponse><message>Metadata update successful</message><return>1</return></iceresponse>\n"
+const continueResponse = "HTTP/1.1 100 Continue\r\n\r\n"
+
+function respond(socket: net.Socket, status: number) {
+  const authenticate = status === 401 ? 'WWW-Authenticate: Basic realm="Icecast2 Server"\r\n' : ""
+  socket.end(`HTTP/1.0 ${status} ${STATUS_CODES[status] ?? ""}\r\n${authenticate}Connection: close\r\n\r\n`)
+}
+
+function parseRequest(head: string): SourceRequest {
+  const [requestLine, ...lines] = head.split("\r\n")
+  const [method = "", path = ""] = requestLine.split(" ")
+  const headers: Record<string, string> = {}
+  for (const line of lines) {
+    const separator = line.indexOf(":")
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim()
+    }
+  }
+  return { method: method.toUpperCase(), path, headers }
+}
+
+// "/ABC123" or "/ABC123.ogg" names room ABC123
+function mountRoomId(mount: string) {
+  return mount.replace(/^\//, "").replace(/\.\w+$/, "")
+}
+
+// Separate title and artist, or "Artist - Title" in song as most source clients send it. An
+// empty song clears the track; undefined means the update is not valid.
+function trackFromQuery(query: URLSearchParams): TrackMetadata | null | undefined {
+  let title = query.get("title")?.trim()
+  let artist = query.get("artist")?.trim() || undefined
+  if (!title) {
+    const song = query.get("song")?.trim()
+    if (!song) return null
+
+    const separator = song.indexOf(" - ")
+    title = separator === -1 ? song : song.slice(separator + 3)
+    artist = separator === -1 ? undefined : song.slice(0, separator)
+  }
+
+  const track = trackMetadataSchema.safeParse({ title, artist })
+  return track.success ? track.data : undefined
+}
+
+function sourceFormat(contentType: string): SourceFormat | null {
+  if (contentType === "audio/ogg" || contentType === "application/ogg" || contentType === "audio/opus") return "ogg"
+  if (contentType === "audio/mpeg" || contentType === "audio/mp3") return "mp3"
+  return null
+}
+
+async function startTranscoder(ffmpegPath: string): Promise<ChildProcessWithoutNullStreams | null> {
+  const ffmpeg = spawn(ffmpegPath, [
+    ...["-hide_banner", "-loglevel", "error"],
+    ...["-f", "mp3", "-i", "pipe:0"],
+    ...["-c:a", "libopus", "-b:a", "128k", "-ar", "48000", "-ac", "2", "-frame_duration", "20"],
+    // One Ogg page per packet, so packets are not held back
+    ...["-page_duration", "20000", "-f", "ogg", "pipe:1"],
+  ])
+  ffmpeg.stdin.on("error", () => {})
+
+  try {
+    await once(ffmpeg, "spawn")
+    return ffmpeg
+  } catch (error) {
+    console.error(`MP3 sources need ffmpeg (${ffmpegPath}):`, error)
+    return null
+  }
+}
+
+// Decodes a chunked transfer-encoded body as it arrives
+function dechunker(write: (chunk: Buffer) => void) {
+  let buffer = Buffer.alloc(0)
+  let remaining = 0
+
+  return (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk])
+    for (;;) {
+      if (remaining > 0) {
+        const data = buffer.subarray(0, remaining)
+        if (data.length === 0) return
+        write(data)
+        remaining -= data.length
+        buffer = buffer.subarray(data.length)
+        continue
+      }
+
+      // Each chunk is "<size in hex>\r\n<data>\r\n"; the CRLF after the previous chunk's data
+      // shows up here as an empty line
+      const end = buffer.indexOf("\r\n")
+      if (end === -1) return
+      const line = buffer.subarray(0, end).toString("latin1").trim()
+      buffer = buffer.subarray(end + 2)
+      if (line) {
+        remaining = Number.parseInt(line, 16) || 0
+      }
+    }
+  }
+}
+
+// Wraps Opus packets in RTP and hands them to the track the relay forwards
+function rtpWriter(track: MediaStreamTrack) {
+  const ssrc = randomInt(1, 0xffffffff)
+  let sequenceNumber = randomInt(0x10000)
+  let timestamp = randomInt(0xffffffff)
+
+  return (payload: Buffer) => {
+    const header = new RtpHeader({ payloadType: OPUS_PAYLOAD_TYPE, sequenceNumber, timestamp, ssrc, marker: false })
+    track.writeRtp(new RtpPacket(header, payload))
+    sequenceNumber = (sequenceNumber + 1) & 0xffff
+    timestamp = (timestamp + opusPacketSamples(payload)) >>> 0
+  }
+}
+
+// Sends packets at the pace they play at. Sources send in real time but in bursts, and
+// ffmpeg hands its output over a few packets at a time.
+class OpusPacer {
+  private readonly queue: Buffer[] = []
+  private readonly timer = setInterval(() => this.flush(), PACER_INTERVAL_MS)
+  private startedAt: number | null = null
+  private sentSamples = 0
+
+  constructor(private readonly send: (packet: Buffer) => void) {}
+
+  push(packet: Buffer) {
+    this.queue.push(packet)
+    if (this.queue.length > MAX_QUEUED_PACKETS) {
+      this.queue.shift()
+    }
+  }
+
+  stop() {
+    clearInterval(this.timer)
+  }
+
+  private flush() {
+    if (this.queue.length === 0) return
+
+    // After a pause in the source, start over instead of rushing to catch up
+    const now = Date.now()
+    if (this.startedAt === null || now - this.dueAt() > MAX_LATE_MS) {
+      this.startedAt = now - (this.sentSamples * 1000) / 48000
+    }
+
+    while (this.queue.length > 0 && this.dueAt() <= now) {
+      const packet = this.queue.shift()!
+      this.send(packet)
+      this.sentSamples += opusPacketSamples(packet)
+    }
+  }
+
+  private dueAt() {
+    return (this.startedAt ?? 0) + (this.sentSamples * 1000) / 48000
+  }
+}
@@ -0,0 +1,214 @@
+// Ogg encapsulation of Opus (RFC 7845). The writer wraps the packets WebRTC delivers in an
+// Ogg stream, which browsers, VLC and most internet radio players can play straight from an
+// HTTP response; the reader unwraps what broadcasting software sends. Packets are passed
+// through untouched, so no audio is decoded or re-encoded.
+
+const OPUS_SAMPLE_RATE = 48000
+// Samples the decoder drops at the start; libopus' usual encoder delay at 48 kHz
+const PRE_SKIP = 312
+const MAX_SEGMENT = 255
+
+const HEADER_CONTINUED = 0x01
+const HEADER_BOS = 0x02
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 24
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1
+  }
+  return crc >>> 0
+})
+
+function oggCrc(data: Buffer) {
+  let crc = 0
+  for (const byte of data) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0
+  }
+  return crc
+}
+
+// Samples in one Opus packet, from its TOC byte (RFC 6716 section 3.1)
+export function opusPacketSamples(packet: Buffer) {
+  if (packet.length === 0) return 0
+
+  const config = packet[0] >> 3
+  const frameMs =
+    config < 12 ? [10, 20, 40, 60][config % 4] : config < 16 ? [10, 20][config % 2] : [2.5, 5, 10, 20][config % 4]
+  const frameCode = packet[0] & 0x03
+  const frames = frameCode === 0 ? 1 : frameCode === 3 ? (packet[1] ?? 0) & 0x3f : 2
+  return (frames * frameMs * OPUS_SAMPLE_RATE) / 1000
+}
+
+export class OggOpusWriter {
+  private readonly serial = Math.floor(Math.random() * 0xffffffff)
+  private sequence = 0
+  private granule = 0
+  // Where the current RTP source started, so a new host connection continues the timeline
+  private source: { ssrc: number; firstTimestamp: number; startGranule: number } | null = null
+
+  constructor(private readonly channels = 2) {}
+
+  // The identification and comment headers every Ogg Opus stream starts with
+  headers() {
+    const head = Buffer.alloc(19)
+    head.write("OpusHead", 0, "ascii")
+    head.writeUInt8(1, 8)
+    head.writeUInt8(this.channels, 9)
+    head.writeUInt16LE(PRE_SKIP, 10)
+    head.writeUInt32LE(OPUS_SAMPLE_RATE, 12)
+    head.writeInt16LE(0, 16)
+    head.writeUInt8(0, 18)
+
+    const vendor = Buffer.from("livestream-audio", "utf8")
+    const tags = Buffer.alloc(8 + 4 + vendor.length + 4)
+    tags.write("OpusTags", 0, "ascii")
+    tags.writeUInt32LE(vendor.length, 8)
+    vendor.copy(tags, 12)
+    tags.writeUInt32LE(0, 12 + vendor.length)
+
+    return Buffer.concat([this.page(head, 0, HEADER_BOS), this.page(tags, 0)])
+  }
+
+  // One page per packet keeps the delay down to a single packet
+  packet(payload: Buffer, { ssrc, timestamp }: { ssrc: number; timestamp: number }) {
+    if (this.source?.ssrc !== ssrc) {
+      this.source = { ssrc, firstTimestamp: timestamp, startGranule: this.granule }
+    }
+
+    // RTP timestamps count 48 kHz samples too, and account for packets that never arrived
+    const elapsed = (timestamp - this.source.firstTimestamp) >>> 0
+    const granule = this.source.startGranule + elapsed + opusPacketSamples(payload)
+    // Reordered packets must not move the position backwards
+    this.granule = Math.max(this.granule, granule)
+
+    return this.page(payload, this.granule)
+  }
+
+  private page(data: Buffer, granule: number, headerType = 0) {
+    const lacing: number[] = []
+    for (let remaining = data.length; ; remaining -= MAX_SEGMENT) {
+      lacing.push(Math.min(remaining, MAX_SEGMENT))
+      if (remaining < MAX_SEGMENT) break
+    }
+
+    const header = Buffer.alloc(27 + lacing.length)
+    header.write("OggS", 0, "ascii")
+    header.writeUInt8(0, 4)
+    header.writeUInt8(headerType, 5)
+    header.writeBigUInt64LE(BigInt(granule), 6)
+    header.writeUInt32LE(this.serial, 14)
+    header.writeUInt32LE(this.sequence++, 18)
+    header.writeUInt32LE(0, 22)
+    header.writeUInt8(lacing.length, 26)
+    Buffer.from(lacing).copy(header, 27)
+
+    const page = Buffer.concat([header, data])
+    page.writeUInt32LE(oggCrc(page), 22)
+    return page
+  }
+}
+
+// Splits an Ogg/Opus byte stream into Opus packets, skipping the headers of each logical
+// stream. Sources chain streams to update metadata between tracks; their comments, such as
+// TITLE and ARTIST, are passed to onTags with lower-case keys.
+export class OggOpusReader {
+  private buffer = Buffer.alloc(0)
+  private serial: number | null = null
+  private partial: Buffer[] = []
+  private truncated = false
+
+  constructor(
+    private readonly onPacket: (packet: Buffer) => void,
+    private readonly onTags?: (tags: Record<string, string>) => void,
+  ) {}
+
+  write(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    for (;;) {
+      const start = this.buffer.indexOf("OggS")
+      if (start === -1) {
+        // Keep a few bytes in case the capture pattern is split across chunks
+        this.buffer = this.buffer.subarray(Math.max(0, this.buffer.length - 3))
+        return
+      }
+      if (this.buffer.length < start + 27) break
+
+      const segments = this.buffer[start + 26]
+      const headerLength = 27 + segments
+      if (this.buffer.length < start + headerLength) break
+
+      const lacing = this.buffer.subarray(start + 27, start + headerLength)
+      const bodyLength = lacing.reduce((total, value) => total + value, 0)
+      if (this.buffer.length < start + headerLength + bodyLength) break
+
+      const headerType = this.buffer[start + 5]
+      const serial = this.buffer.readUInt32LE(start + 14)
+      const body = this.buffer.subarray(start + headerLength, start + headerLength + bodyLength)
+      this.buffer = this.buffer.subarray(start + headerLength + bodyLength)
+
+      if (headerType & HEADER_BOS) {
+        this.serial = serial
+        this.partial = []
+      }
+      if (serial === this.serial) {
+        this.readPage(lacing, body, headerType)
+      }
+    }
+  }
+
+  private readPage(lacing: Buffer, body: Buffer, headerType: number) {
+    if (!(headerType & HEADER_CONTINUED)) {
+      this.partial = []
+      this.truncated = false
+    } else if (this.partial.length === 0) {
+      // A continued packet whose start we never saw is dropped
+      this.truncated = true
+    }
+
+    let offset = 0
+    for (const length of lacing) {
+      this.partial.push(body.subarray(offset, offset + length))
+      offset += length
+      if (length < MAX_SEGMENT) {
+        if (!this.truncated) this.emit(Buffer.concat(this.partial))
+        this.partial = []
+        this.truncated = false
+      }
+    }
+  }
+
+  private emit(packet: Buffer) {
+    const magic = packet.toString("ascii", 0, 8)
+    if (magic === "OpusTags") {
+      this.onTags?.(parseComments(packet))
+    } else if (packet.length > 0 && magic !== "OpusHead") {
+      this.onPacket(packet)
+    }
+  }
+}
+
+// Vorbis-style comments: vendor string, then "KEY=value" strings, each prefixed with its length
+function parseComments(packet: Buffer) {
+  const tags: Record<string, string> = {}
+  try {
+    let offset = 8
+    offset += 4 + packet.readUInt32LE(offset)
+    const count = packet.readUInt32LE(offset)
+    offset += 4
+
+    for (let index = 0; index < count; index++) {
+      const length = packet.readUInt32LE(offset)
+      const comment = packet.toString("utf8", offset + 4, offset + 4 + length)
+      offset += 4 + length
+
+      const separator = comment.indexOf("=")
+      if (separator > 0) {
+        tags[comment.slice(0, separator).toLowerCase()] = comment.slice(separator + 1)
+      }
+    }
+  } catch {
+    // Truncated comment headers keep whatever was read
+  }
+  return tags
+}
@@ -0,0 +1,240 @@
+import { randomBytes } from "crypto"
+import { createWriteStream, type WriteStream } from "fs"
+import fs from "fs/promises"
+import path from "path"
+import type { RecordingInfo } from "@/lib/signaling"
+import type { Config } from "./config"
+import { OggOpusWriter } from "./ogg"
+import type { AudioRelay } from "./relay"
+import { RoomError, type RoomService } from "./rooms"
+import { secretMatches, signDownload, verifyDownload } from "./rooms/tokens"
+import type { SignalingServer } from "./signaling"
+
+// How long the download links in a recording listing stay valid
+const DOWNLOAD_LINK_TTL_MS = 60 * 60 * 1000
+const recordingIdPattern = /^[\w-]{1,32}$/
+
+// Kept as JSON next to each recording. The host token hash lets the host reach its recordings
+// after the room itself is gone.
+interface RecordingMetadata extends RecordingInfo {
+  roomId: string
+  hostTokenHash: string | null
+}
+
+interface ActiveRecording {
+  metadata: RecordingMetadata
+  file: WriteStream
+  removeSink: () => void
+}
+
+export interface ArchivedRecording extends RecordingInfo {
+  // When the recording will be deleted; null while it is running
+  expiresAt: number | null
+  downloadToken: string
+}
+
+// Records rooms to Ogg/Opus files on this server. Recordings tap the relay like HTTP stream
+// listeners do, so the Opus packets are written as they arrive without re-encoding, and the
+// host publishes to the relay while one is running. Pauses, e.g. while the host reconnects,
+// are left out of the file rather than recorded as silence.
+export class RecordingService {
+  private readonly active = new Map<string, ActiveRecording>()
+
+  constructor(
+    private readonly io: SignalingServer,
+    private readonly rooms: RoomService,
+    private readonly relay: AudioRelay,
+    private readonly config: Config,
+  ) {}
+
+  current(roomId: string): RecordingInfo | null {
+    const recording = this.active.get(roomId)
+    return recording ? recordingInfo(recording.metadata, recording.file.bytesWritten) : null
+  }
+
+  async start(roomId: string, hostSocketId: string) {
+    const room = await this.assertHost(roomId, hostSocketId)
+    await fs.mkdir(this.config.recordingsDir, { recursive: true })
+    if (this.active.has(roomId)) return
+
+    const metadata: RecordingMetadata = {
+      recordingId: randomBytes(9).toString("base64url"),
+      roomId,
+      hostTokenHash: room.hostTokenHash,
+      startedAt: Date.now(),
+      stoppedAt: null,
+      bytes: 0,
+    }
+    const file = createWriteStream(this.filePath(metadata.recordingId, "ogg"))
+    const writer = new OggOpusWriter()
+    file.write(writer.headers())
+
+    const removeSink = this.relay.addSink(
+      roomId,
+      (packet) => file.write(writer.packet(packet.payload, packet.header)),
+      "recorder",
+    )
+    file.on("error", (error) => {
+      console.error(`Recording of room ${roomId} failed:`, error)
+      this.stop(roomId).catch(() => {})
+    })
+    this.active.set(roomId, { metadata, file, removeSink })
+
+    await this.writeMetadata(metadata)
+    await this.announce(roomId)
+    console.log(`Recording room ${roomId} (${metadata.recordingId})`)
+  }
+
+  // Without a host socket ID the recording is stopped regardless of who asks, e.g. on cleanup
+  async stop(roomId: string, hostSocketId?: string) {
+    if (hostSocketId) {
+      await this.assertHost(roomId, hostSocketId)
+    }
+
+    const recording = this.active.get(roomId)
+    if (!recording) return
+
+    this.active.delete(roomId)
+    recording.removeSink()
+    await new Promise<void>((resolve) => recording.file.end(resolve))
+
+    await this.writeMetadata({ ...recording.metadata, stoppedAt: Date.now(), bytes: recording.file.bytesWritten })
+    await this.announce(roomId)
+  }
+
+  // The room's recordings made by the holder of this host token, newest first
+  async list(roomId: string, hostToken: string | undefined): Promise<ArchivedRecording[]> {
+    const recordings = (await this.readAllMetadata()).filter(
+      (metadata) => metadata.roomId === roomId && secretMatches(hostToken, metadata.hostTokenHash),
+    )
+    if (recordings.length === 0 && !(await this.rooms.verifyHostToken(roomId, hostToken))) {
+      throw new RoomError("invalid-host-token", "Invalid host token for this room")
+    }
+
+    const archived = await Promise.all(recordings.map((metadata) => this.archived(metadata)))
+    return archived.sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  // Recordings are downloaded with the host token, or with a signed link from the listing
+  async open(roomId: string, recordingId: string, credentials: { hostToken?: string; token?: string }) {
+    const metadata = recordingIdPattern.test(recordingId) ? await this.readMetadata(recordingId) : null
+    if (metadata?.roomId !== roomId) {
+      throw new RoomError("invalid-recording", "Recording not found")
+    }
+
+    const download = credentials.token ? verifyDownload(credentials.token, this.config.inviteSecret) : null
+    const linkValid =
+      download?.roomId === roomId && download.recordingId === recordingId && download.expiresAt > Date.now()
+    if (!linkValid && !secretMatches(credentials.hostToken, metadata.hostTokenHash)) {
+      throw new RoomError("invalid-host-token", "This download link is not valid")
+    }
+
+    return { recording: await this.archived(metadata), filePath: this.filePath(recordingId, "ogg") }
+  }
+
+  // Stops recordings of rooms that no longer exist and deletes recordings past the retention period
+  async cleanup(now = Date.now()) {
+    for (const roomId of this.active.keys()) {
+      if (!(await this.rooms.getRoom(roomId))) {
+        await this.stop(roomId)
+      }
+    }
+
+    for (const metadata of await this.readAllMetadata()) {
+      const { stoppedAt } = await this.archived(metadata)
+      if (stoppedAt !== null && stoppedAt + this.retentionMs() < now) {
+        await fs.rm(this.filePath(metadata.recordingId, "ogg"), { force: true })
+        await fs.rm(this.filePath(metadata.recordingId, "json"), { force: true })
+      }
+    }
+  }
+
+  close() {
+    for (const roomId of this.active.keys()) {
+      this.stop(roomId).catch((error) => {
+        console.error(`Could not finish the recording of room ${roomId}:`, error)
+      })
+    }
+  }
+
+  private async archived(metadata: RecordingMetadata): Promise<ArchivedRecording> {
+    const running = this.active.get(metadata.roomId)
+    let info: RecordingInfo
+    if (running?.metadata.recordingId === metadata.recordingId) {
+      info = recordingInfo(running.metadata, running.file.bytesWritten)
+    } else if (metadata.stoppedAt === null) {
+      // Never finished, e.g. because the server crashed: it ends where the file does
+      const stats = await fs.stat(this.filePath(metadata.recordingId, "ogg")).catch(() => null)
+      info = recordingInfo({ ...metadata, stoppedAt: stats?.mtimeMs ?? metadata.startedAt }, stats?.size ?? 0)
+    } else {
+      info = recordingInfo(metadata, metadata.bytes)
+    }
+
+    return {
+      ...info,
+      expiresAt: info.stoppedAt === null ? null : info.stoppedAt + this.retentionMs(),
+      downloadToken: signDownload(
+        { roomId: metadata.roomId, recordingId: metadata.recordingId, expiresAt: Date.now() + DOWNLOAD_LINK_TTL_MS },
+        this.config.inviteSecret,
+      ),
+    }
+  }
+
+  private async assertHost(roomId: string, hostSocketId: string) {
+    const room = await this.rooms.getRoom(roomId)
+    if (!room) {
+      throw new RoomError("invalid-room", "Room not found")
+    }
+    if (room.hostId !== hostSocketId) {
+      throw new RoomError("not-host", "Only the host can record the room")
+    }
+    return room
+  }
+
+  private async announce(roomId: string) {
+    const room = await this.rooms.getRoom(roomId)
+    if (room?.hostId) {
+      this.io.to(room.hostId).emit("recording-updated", { recording: this.current(roomId) })
+    }
+  }
+
+  private async readAllMetadata() {
+    const files = await fs.readdir(this.config.recordingsDir).catch(() => [])
+    const recordings = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.readMetadata(path.basename(file, ".json"))),
+    )
+    return recordings.filter((metadata): metadata is RecordingMetadata => metadata !== null)
+  }
+
+  private async readMetadata(recordingId: string): Promise<RecordingMetadata | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(recordingId, "json"), "utf8"))
+    } catch {
+      return null
+    }
+  }
+
+  private async writeMetadata(metadata: RecordingMetadata) {
+    await fs.writeFile(this.filePath(metadata.recordingId, "json"), JSON.stringify(metadata))
+  }
+
+  private filePath(recordingId: string, extension: "ogg" | "json") {
+    return path.join(this.config.recordingsDir, `${recordingId}.${extension}`)
+  }
+
+  private retentionMs() {
+    return this.config.recordingRetention * 60 * 60 * 1000
+  }
+}
+
+// e.g. ABC123-2025-06-01-21-30.ogg
+export function recordingFileName(roomId: string, startedAt: number) {
+  const started = new Date(startedAt).toISOString().slice(0, 16).replace(/[T:]/g, "-")
+  return `${roomId.replace(/[^\w-]/g, "")}-${started}.ogg`
+}
+
+function recordingInfo({ recordingId, startedAt, stoppedAt }: RecordingMetadata, bytes: number): RecordingInfo {
+  return { recordingId, startedAt, stoppedAt, bytes }
+}
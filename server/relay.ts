@@ -0,0 +1,355 @@
+import { MediaStream, MediaStreamTrack, RTCPeerConnection, type RTCRtpTransceiver, type RtpPacket } from "werift"
+import { RELAY_PEER_ID, type IceCandidate, type SessionDescription } from "@/lib/signaling"
+import type { Config } from "./config"
+import { iceConfig } from "./ice"
+import type { RoomService } from "./rooms"
+import type { SignalingServer } from "./signaling"
+
+interface Subscriber {
+  pc: RTCPeerConnection
+  transceiver: RTCRtpTransceiver
+}
+
+interface RelayRoom {
+  publisherId: string | null
+  publisher: RTCPeerConnection | null
+  // The host's audio as received by the server, or an external source's, forwarded to every subscriber
+  track: MediaStreamTrack | null
+  // Shared by all subscriber connections so listeners always see the same stream
+  stream: MediaStream
+  subscribers: Map<string, Subscriber>
+}
+
+// Receives the room's audio packets on this server, to stream them over HTTP or record them
+export type AudioSink = (packet: RtpPacket) => void
+
+// Only listener sinks count towards the HTTP listeners the host is told about
+export type SinkKind = "listener" | "recorder"
+
+export interface RelaySignal {
+  from: string
+  answer?: SessionDescription
+  candidate?: IceCandidate
+}
+
+// Selective forwarding for rooms in relay mode. The host publishes its audio to the server
+// once and the server forwards the RTP packets to every listener over a connection of its
+// own, so the host's upload stays the same however many people listen.
+//
+// A room's relay lives on the instance its host is connected to. When several instances
+// share rooms through Redis, listener joins, answers and ICE candidates that arrive at
+// another instance are passed on as server-side events.
+//
+// Hosts of rooms in other modes publish to the relay too while the room has audio sinks,
+// so listeners without WebRTC can be served and recordings made from here.
+export class AudioRelay {
+  private readonly rooms = new Map<string, RelayRoom>()
+  // Room of each connected peer by socket ID, for routing answers and candidates
+  private readonly peers = new Map<string, string>()
+  private readonly sinks = new Map<string, Map<AudioSink, SinkKind>>()
+
+  constructor(
+    private readonly io: SignalingServer,
+    private readonly roomService: RoomService,
+    private readonly config: Config,
+    private readonly clustered: boolean,
+  ) {
+    io.on("relay-subscribe", ({ roomId, listenerId }) => {
+      this.subscribeLocally(roomId, listenerId)
+    })
+    io.on("relay-unsubscribe", ({ roomId, listenerId }) => {
+      this.unsubscribeLocally(roomId, listenerId)
+    })
+    io.on("relay-signal", (signal) => {
+      this.signalLocally(signal)
+    })
+    io.on("relay-close", ({ roomId }) => {
+      this.closeRoomLocally(roomId)
+    })
+  }
+
+  // Accepts the host's offer and answers it. A new connection replaces any earlier one, and
+  // listeners that are already subscribed switch over to the new track without renegotiating.
+  async publish(roomId: string, hostId: string, offer: SessionDescription, restart = false) {
+    const existing = this.rooms.get(roomId)
+    if (restart && existing?.publisherId === hostId && existing.publisher) {
+      return this.answer(existing.publisher, offer)
+    }
+
+    // Whichever instance relayed this room before gives it up
+    if (this.clustered) {
+      this.io.serverSideEmit("relay-close", { roomId })
+    }
+
+    const room = existing ?? this.createRoom(roomId)
+    this.closePublisher(room)
+
+    const pc = this.createPeerConnection(roomId, hostId)
+    room.publisher = pc
+    room.publisherId = hostId
+
+    pc.onTrack.subscribe((track) => {
+      if (track.kind === "audio" && room.publisher === pc) {
+        this.useTrack(roomId, room, track)
+      }
+    })
+
+    const answer = await this.answer(pc, offer)
+    await this.offerToListeners(roomId, room)
+    return answer
+  }
+
+  // Relays audio that did not come from the host's browser, such as an Icecast source. It
+  // replaces the host's connection; the caller makes sure the host does not publish meanwhile.
+  async publishTrack(roomId: string, track: MediaStreamTrack) {
+    if (this.clustered) {
+      this.io.serverSideEmit("relay-close", { roomId })
+    }
+
+    const room = this.rooms.get(roomId) ?? this.createRoom(roomId)
+    this.closePublisher(room)
+    this.useTrack(roomId, room, track)
+    await this.offerToListeners(roomId, room)
+  }
+
+  unpublishTrack(roomId: string, track: MediaStreamTrack) {
+    const room = this.rooms.get(roomId)
+    if (room?.track !== track) return
+
+    room.track = null
+    this.dropIfEmpty(roomId, room)
+  }
+
+  // The host left; subscribers stay connected so audio resumes when it publishes again
+  unpublish(roomId: string, hostId: string) {
+    const room = this.rooms.get(roomId)
+    if (room?.publisherId !== hostId) return
+
+    this.closePublisher(room)
+    this.dropIfEmpty(roomId, room)
+  }
+
+  // Starts forwarding the room's audio to a listener. Only the instance relaying the room
+  // acts on it; until the host publishes nobody does, and publishing subscribes everyone.
+  subscribe(roomId: string, listenerId: string) {
+    this.subscribeLocally(roomId, listenerId)
+    if (this.clustered) {
+      this.io.serverSideEmit("relay-subscribe", { roomId, listenerId })
+    }
+  }
+
+  unsubscribe(roomId: string, listenerId: string) {
+    this.unsubscribeLocally(roomId, listenerId)
+    if (this.clustered) {
+      this.io.serverSideEmit("relay-unsubscribe", { roomId, listenerId })
+    }
+  }
+
+  // Returns a function that removes the sink again. The host is told how many HTTP listeners
+  // its room has, and publishes while there are any sinks.
+  addSink(roomId: string, sink: AudioSink, kind: SinkKind = "listener") {
+    const sinks = this.sinks.get(roomId) ?? new Map()
+    sinks.set(sink, kind)
+    this.sinks.set(roomId, sinks)
+    this.announceSinks(roomId)
+
+    return () => {
+      if (!sinks.delete(sink)) return
+      if (sinks.size === 0) {
+        this.sinks.delete(roomId)
+      }
+      this.announceSinks(roomId)
+    }
+  }
+
+  sinkCount(roomId: string, kind?: SinkKind) {
+    const sinks = [...(this.sinks.get(roomId)?.values() ?? [])]
+    return kind ? sinks.filter((sinkKind) => sinkKind === kind).length : sinks.length
+  }
+
+  // Answers and ICE candidates a host or listener addressed to the relay
+  signal(signal: RelaySignal) {
+    if (this.peers.has(signal.from)) {
+      this.signalLocally(signal)
+    } else if (this.clustered) {
+      this.io.serverSideEmit("relay-signal", signal)
+    }
+  }
+
+  // Stops relaying the room, e.g. when it goes back to direct connections
+  closeRoom(roomId: string) {
+    this.closeRoomLocally(roomId)
+    if (this.clustered) {
+      this.io.serverSideEmit("relay-close", { roomId })
+    }
+  }
+
+  close() {
+    for (const roomId of this.rooms.keys()) {
+      this.closeRoomLocally(roomId)
+    }
+  }
+
+  private subscribeLocally(roomId: string, listenerId: string) {
+    const room = this.rooms.get(roomId)
+    if (room?.publisher || room?.track) {
+      this.offerTo(room, roomId, listenerId)
+    }
+  }
+
+  private unsubscribeLocally(roomId: string, listenerId: string) {
+    const room = this.rooms.get(roomId)
+    const subscriber = room?.subscribers.get(listenerId)
+    if (!room || !subscriber) return
+
+    room.subscribers.delete(listenerId)
+    this.closePeer(listenerId, subscriber.pc)
+    this.dropIfEmpty(roomId, room)
+  }
+
+  private signalLocally({ from, answer, candidate }: RelaySignal) {
+    const roomId = this.peers.get(from)
+    const room = roomId ? this.rooms.get(roomId) : undefined
+    if (!room) return
+
+    const pc = room.publisherId === from ? room.publisher : room.subscribers.get(from)?.pc
+    if (!pc) return
+
+    const applied = answer ? pc.setRemoteDescription(answer) : pc.addIceCandidate(candidate)
+    applied.catch((error) => {
+      console.error(`Relay could not apply signaling from ${from}:`, error)
+    })
+  }
+
+  private closeRoomLocally(roomId: string) {
+    const room = this.rooms.get(roomId)
+    if (!room) return
+
+    this.closePublisher(room)
+    for (const [listenerId, { pc }] of room.subscribers) {
+      this.closePeer(listenerId, pc)
+    }
+    this.rooms.delete(roomId)
+  }
+
+  private useTrack(roomId: string, room: RelayRoom, track: MediaStreamTrack) {
+    room.track = track
+    track.onReceiveRtp.subscribe((packet) => {
+      if (room.track !== track) return
+      this.sinks.get(roomId)?.forEach((_, sink) => sink(packet))
+    })
+    for (const { transceiver } of room.subscribers.values()) {
+      transceiver.sender.replaceTrack(track).catch((error) => {
+        console.error(`Relay could not switch a listener in ${roomId} to the new track:`, error)
+      })
+    }
+  }
+
+  // Listeners that joined before the audio started
+  private async offerToListeners(roomId: string, room: RelayRoom) {
+    const record = await this.roomService.getRoom(roomId)
+    if (record?.mode !== "relay") return
+
+    for (const listener of record.listeners) {
+      if (!listener.disconnectedAt && !room.subscribers.has(listener.socketId)) {
+        this.offerTo(room, roomId, listener.socketId)
+      }
+    }
+  }
+
+  private offerTo(room: RelayRoom, roomId: string, listenerId: string) {
+    const previous = room.subscribers.get(listenerId)
+    if (previous) {
+      this.closePeer(listenerId, previous.pc)
+    }
+
+    const pc = this.createPeerConnection(roomId, listenerId)
+    const transceiver = pc.addTransceiver("audio", { direction: "sendonly", streams: [room.stream] })
+    room.subscribers.set(listenerId, { pc, transceiver })
+
+    const sendOffer = async () => {
+      if (room.track) {
+        await transceiver.sender.replaceTrack(room.track)
+      }
+      await pc.setLocalDescription(await pc.createOffer())
+      // Candidates are gathered by now and included in the description
+      const { type, sdp } = pc.localDescription!
+      this.io.to(listenerId).emit("offer", { from: RELAY_PEER_ID, offer: { type, sdp } })
+    }
+
+    sendOffer().catch((error) => {
+      console.error(`Relay could not connect to listener ${listenerId}:`, error)
+      this.unsubscribeLocally(roomId, listenerId)
+    })
+  }
+
+  private announceSinks(roomId: string) {
+    const announce = async () => {
+      const record = await this.roomService.getRoom(roomId)
+      if (record?.hostId) {
+        this.io.to(record.hostId).emit("http-listeners-updated", { count: this.sinkCount(roomId, "listener") })
+      }
+
+      // Outside relay mode the host only published for the sinks
+      const room = this.rooms.get(roomId)
+      if (this.sinkCount(roomId) === 0 && room && record?.mode !== "relay") {
+        this.closePublisher(room)
+        this.dropIfEmpty(roomId, room)
+      }
+    }
+
+    announce().catch((error) => {
+      console.error(`Relay could not update the host of ${roomId}:`, error)
+    })
+  }
+
+  private async answer(pc: RTCPeerConnection, offer: SessionDescription): Promise<SessionDescription> {
+    await pc.setRemoteDescription({ type: "offer", sdp: offer.sdp ?? "" })
+    await pc.setLocalDescription(await pc.createAnswer())
+    const { type, sdp } = pc.localDescription!
+    return { type, sdp }
+  }
+
+  private createRoom(roomId: string) {
+    const room: RelayRoom = {
+      publisherId: null,
+      publisher: null,
+      track: null,
+      stream: new MediaStream(),
+      subscribers: new Map(),
+    }
+    this.rooms.set(roomId, room)
+    return room
+  }
+
+  private createPeerConnection(roomId: string, peerId: string) {
+    const pc = new RTCPeerConnection({
+      iceServers: iceConfig(this.config, RELAY_PEER_ID).iceServers,
+      icePortRange: this.config.relayPortRange,
+    })
+    this.peers.set(peerId, roomId)
+    return pc
+  }
+
+  private closePublisher(room: RelayRoom) {
+    if (room.publisher && room.publisherId) {
+      this.closePeer(room.publisherId, room.publisher)
+    }
+    room.publisher = null
+    room.publisherId = null
+    room.track = null
+  }
+
+  private closePeer(peerId: string, pc: RTCPeerConnection) {
+    this.peers.delete(peerId)
+    pc.close().catch((error) => {
+      console.error(`Error closing relay connection to ${peerId}:`, error)
+    })
+  }
+
+  private dropIfEmpty(roomId: string, room: RelayRoom) {
+    if (!room.publisher && !room.track && room.subscribers.size === 0) {
+      this.rooms.delete(roomId)
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { HOST_PARENT_ID } from "@/lib/signaling"
+import { connectionQuality } from "@/lib/peer-stats"
+import type { ListenerRecord, RoomRecord } from "./types"
+
+// Distribution tree for rooms in cascade mode. Every connected listener gets a parent that
+// forwards the audio to it: the host, or another listener with spare capacity and a good
+// connection. The tree is recomputed after anything that changes the room, and only
+// listeners whose parent is missing are moved, so working connections are left alone.
+
+export interface CascadeLimits {
+  // Listeners the host feeds itself before others are placed under listeners
+  maxHostChildren: number
+  // Longest chain of listeners between the host and any listener; each hop adds latency
+  maxDepth: number
+}
+
+// A listener whose parent changed. undefined means it is not part of the tree.
+export interface CascadeChange {
+  listenerId: string
+  previousParentId: string | null | undefined
+  parentId: string | null | undefined
+}
+
+export function rebalanceCascade(room: RoomRecord, limits: CascadeLimits): RoomRecord {
+  if (room.mode !== "cascade") {
+    return room.listeners.some((listener) => listener.parentId !== null)
+      ? { ...room, listeners: room.listeners.map((listener) => ({ ...listener, parentId: null })) }
+      : room
+  }
+
+  const connected = new Map(
+    room.listeners.filter((listener) => !listener.disconnectedAt).map((listener) => [listener.socketId, listener]),
+  )
+
+  // Disconnected listeners leave the tree, and whoever they fed needs a new parent
+  const parents = new Map<string, string | null>()
+  for (const listener of room.listeners) {
+    const keep =
+      !listener.disconnectedAt &&
+      (listener.parentId === HOST_PARENT_ID || (listener.parentId !== null && connected.has(listener.parentId)))
+    parents.set(listener.socketId, keep ? listener.parentId : null)
+  }
+
+  const tree = new CascadeTree(parents)
+  const unplaced = [...connected.values()]
+    .filter((listener) => parents.get(listener.socketId) === null)
+    .sort((a, b) => a.joinedAt - b.joinedAt)
+
+  for (const listener of unplaced) {
+    tree.place(listener.socketId, chooseParent(listener, [...connected.values()], tree, limits))
+  }
+
+  return {
+    ...room,
+    listeners: room.listeners.map((listener) => ({ ...listener, parentId: parents.get(listener.socketId) ?? null })),
+  }
+}
+
+export function cascadeChanges(before: RoomRecord | null, after: RoomRecord | null): CascadeChange[] {
+  const parentsOf = (room: RoomRecord | null) =>
+    new Map(
+      (room?.listeners ?? [])
+        .filter((listener) => listener.parentId !== null)
+        .map((listener) => [listener.socketId, listener.parentId]),
+    )
+  const previous = parentsOf(before)
+  const next = parentsOf(after)
+
+  const changes: CascadeChange[] = []
+  for (const listenerId of new Set([...previous.keys(), ...next.keys()])) {
+    if (previous.get(listenerId) !== next.get(listenerId)) {
+      changes.push({ listenerId, previousParentId: previous.get(listenerId), parentId: next.get(listenerId) })
+    }
+  }
+  return changes
+}
+
+class CascadeTree {
+  private readonly childCounts = new Map<string, number>()
+
+  constructor(private readonly parents: Map<string, string | null>) {
+    for (const parent of parents.values()) {
+      if (parent !== null) this.childCounts.set(parent, this.children(parent) + 1)
+    }
+  }
+
+  place(listenerId: string, parentId: string) {
+    this.parents.set(listenerId, parentId)
+    this.childCounts.set(parentId, this.children(parentId) + 1)
+  }
+
+  children(parentId: string) {
+    return this.childCounts.get(parentId) ?? 0
+  }
+
+  // Hops from the host, or Infinity when the listener is not connected to the host yet
+  depth(listenerId: string) {
+    let current = this.parents.get(listenerId)
+    for (let depth = 1; depth <= this.parents.size; depth++) {
+      if (current === HOST_PARENT_ID) return depth
+      if (!current) return Infinity
+      current = this.parents.get(current)
+    }
+    return Infinity
+  }
+
+  // Levels below the listener, counting itself
+  height(listenerId: string): number {
+    let height = 1
+    for (const [child, parent] of this.parents) {
+      if (parent === listenerId) height = Math.max(height, 1 + this.height(child))
+    }
+    return height
+  }
+
+  isDescendant(listenerId: string, ancestorId: string) {
+    let current = this.parents.get(listenerId)
+    for (let hops = 0; current && current !== HOST_PARENT_ID && hops <= this.parents.size; hops++) {
+      if (current === ancestorId) return true
+      current = this.parents.get(current)
+    }
+    return false
+  }
+}
+
+function chooseParent(
+  listener: ListenerRecord,
+  candidates: ListenerRecord[],
+  tree: CascadeTree,
+  limits: CascadeLimits,
+) {
+  if (tree.children(HOST_PARENT_ID) < limits.maxHostChildren) {
+    return HOST_PARENT_ID
+  }
+
+  const height = tree.height(listener.socketId)
+  const eligible = candidates
+    .filter(
+      (candidate) =>
+        candidate.socketId !== listener.socketId &&
+        candidate.connectionState === "connected" &&
+        candidate.relayCapacity > tree.children(candidate.socketId) &&
+        tree.depth(candidate.socketId) + height <= limits.maxDepth &&
+        !tree.isDescendant(candidate.socketId, listener.socketId) &&
+        (!candidate.stats || connectionQuality(candidate.stats) !== "poor"),
+    )
+    .map((candidate) => ({
+      candidate,
+      depth: tree.depth(candidate.socketId),
+      spare: candidate.relayCapacity - tree.children(candidate.socketId),
+      good: !candidate.stats || connectionQuality(candidate.stats) === "good",
+    }))
+    // Shallow first to keep latency down, then well connected, then most room left
+    .sort((a, b) => a.depth - b.depth || Number(b.good) - Number(a.good) || b.spare - a.spare)
+
+  // With nobody able to take another listener the host does, even past its cap
+  return eligible[0]?.candidate.socketId ?? HOST_PARENT_ID
+}
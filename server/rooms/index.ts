@@ -0,0 +1,37 @@
+import type Redis from "ioredis"
+import { MemoryRoomStore } from "./memory-store"
+import { RedisRoomStore } from "./redis-store"
+import type { RoomStore } from "./types"
+
+export {
+  OWNER_DJ_KEY,
+  RoomError,
+  RoomService,
+  type CreateRoomOptions,
+  type HandOffResult,
+  type HostJoinOptions,
+  type HostJoinResult,
+  type LeaveResult,
+  type LeaveStageResult,
+  type ListenerJoinOptions,
+  type ListenerJoinResult,
+  type NowPlayingAuth,
+  type RemoveListenerResult,
+  type SetlistCredentials,
+} from "./room-service"
+export type { CascadeChange, CascadeLimits } from "./cascade"
+export { MemoryRoomStore } from "./memory-store"
+export { RedisRoomStore } from "./redis-store"
+export type {
+  DjRecord,
+  ListenerPresenceUpdate,
+  ListenerRecord,
+  RoomRecord,
+  RoomStore,
+  TrackRequestRecord,
+} from "./types"
+
+// Rooms are shared through Redis when a client is given, otherwise kept in process memory
+export function createRoomStore(redis: Redis | null, keyPrefix: string): RoomStore {
+  return redis ? new RedisRoomStore(redis, keyPrefix) : new MemoryRoomStore()
+}
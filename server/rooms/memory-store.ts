@@ -0,0 +1,43 @@
+import type { RoomRecord, RoomStore } from "./types"
+
+// Single-process store; rooms are lost on restart and are not shared between instances
+export class MemoryRoomStore implements RoomStore {
+  private readonly rooms = new Map<string, RoomRecord>()
+
+  async get(roomId: string) {
+    const room = this.rooms.get(roomId)
+    return room ? structuredClone(room) : null
+  }
+
+  async create(room: RoomRecord) {
+    if (this.rooms.has(room.roomId)) return false
+    this.rooms.set(room.roomId, structuredClone(room))
+    return true
+  }
+
+  async update(roomId: string, mutate: (room: RoomRecord) => RoomRecord | null) {
+    const room = this.rooms.get(roomId)
+    if (!room) return null
+
+    const next = mutate(structuredClone(room))
+    if (!next) {
+      this.rooms.delete(roomId)
+      return null
+    }
+
+    this.rooms.set(roomId, structuredClone(next))
+    return next
+  }
+
+  async delete(roomId: string) {
+    this.rooms.delete(roomId)
+  }
+
+  async list() {
+    return Array.from(this.rooms.values(), (room) => structuredClone(room))
+  }
+
+  async count() {
+    return this.rooms.size
+  }
+}
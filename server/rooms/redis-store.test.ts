@@ -0,0 +1,99 @@
+import assert from "node:assert/strict"
+import { beforeEach, describe, test } from "node:test"
+import type Redis from "ioredis"
+import RedisMock from "ioredis-mock"
+import { RedisRoomStore } from "./redis-store"
+import { RoomService, type RoomServiceOptions } from "./room-service"
+
+const options: RoomServiceOptions = {
+  maxRooms: 10,
+  roomTimeoutMs: 60_000,
+  hostGraceMs: 60_000,
+  inviteSecret: "test-secret",
+  cascade: { maxHostChildren: 2, maxDepth: 3 },
+}
+
+const KEY_PREFIX = "test:"
+
+describe("RedisRoomStore", () => {
+  let redis: Redis
+  let store: RedisRoomStore
+
+  beforeEach(async () => {
+    redis = new RedisMock()
+    await redis.flushall()
+    store = new RedisRoomStore(redis, KEY_PREFIX)
+  })
+
+  test("creates, lists and deletes rooms", async () => {
+    const { room } = await new RoomService(store, options).createRoom()
+
+    assert.equal(await store.create(room), false)
+    assert.deepEqual(await store.get(room.roomId), room)
+    assert.deepEqual(await store.list(), [room])
+    assert.equal(await store.count(), 1)
+
+    await store.delete(room.roomId)
+    assert.equal(await store.get(room.roomId), null)
+    assert.equal(await store.count(), 0)
+  })
+
+  test("drops a room from the index when an update deletes it", async () => {
+    const { room } = await new RoomService(store, options).createRoom()
+
+    assert.equal(await store.update(room.roomId, () => null), null)
+    assert.equal(await store.get(room.roomId), null)
+    assert.deepEqual(await store.list(), [])
+  })
+
+  test("retries an update when another client changed the room first", async () => {
+    const { room } = await new RoomService(store, options).createRoom()
+
+    let attempts = 0
+    const updated = await store.update(room.roomId, (current) => {
+      attempts++
+      if (attempts === 1) {
+        // Lands between this attempt's read and its compare-and-set
+        void redis.set(`${KEY_PREFIX}room:${room.roomId}`, JSON.stringify({ ...current, maxListeners: 5 }))
+      }
+      return { ...current, isPrivate: true }
+    })
+
+    assert.equal(attempts, 2)
+    assert.equal(updated?.maxListeners, 5)
+    assert.equal(updated?.isPrivate, true)
+    assert.deepEqual(await store.get(room.roomId), updated)
+  })
+
+  test("gives up on a room that keeps changing underneath", async () => {
+    const { room } = await new RoomService(store, options).createRoom()
+
+    await assert.rejects(
+      store.update(room.roomId, (current) => {
+        void redis.set(`${KEY_PREFIX}room:${room.roomId}`, JSON.stringify({ ...current, createdAt: Math.random() }))
+        return current
+      }),
+      /under contention/,
+    )
+  })
+
+  test("applies concurrent joins from several instances", async () => {
+    // Every RedisMock client shares one dataset, like clients of the same server
+    const instances = Array.from(
+      { length: 5 },
+      () => new RoomService(new RedisRoomStore(new RedisMock(), KEY_PREFIX), options),
+    )
+    await instances[0].joinAsHost("ROOM1", "host")
+
+    await Promise.all(instances.map((rooms, index) => rooms.joinAsListener("ROOM1", `listener-${index}`)))
+
+    const room = await store.get("ROOM1")
+    assert.deepEqual(room?.listeners.map((listener) => listener.socketId).sort(), [
+      "listener-0",
+      "listener-1",
+      "listener-2",
+      "listener-3",
+      "listener-4",
+    ])
+  })
+})
@@ -0,0 +1,103 @@
+import type Redis from "ioredis"
+import type { RoomRecord, RoomStore } from "./types"
+
+// Replaces the room only if it still holds the value the caller read; an empty
+// replacement deletes the room and drops it from the index.
+const COMPARE_AND_SET = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+if ARGV[2] == "" then
+  redis.call("DEL", KEYS[1])
+  redis.call("SREM", KEYS[2], ARGV[3])
+else
+  redis.call("SET", KEYS[1], ARGV[2])
+end
+return 1
+`
+
+const MAX_UPDATE_ATTEMPTS = 10
+
+// Stores each room as a JSON string plus a set indexing all room IDs. Works with any
+// client exposing the ioredis API, including in-memory stand-ins such as ioredis-mock.
+export class RedisRoomStore implements RoomStore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly keyPrefix = "livestream:",
+  ) {}
+
+  private roomKey(roomId: string) {
+    return `${this.keyPrefix}room:${roomId}`
+  }
+
+  private get indexKey() {
+    return `${this.keyPrefix}rooms`
+  }
+
+  async get(roomId: string) {
+    const raw = await this.redis.get(this.roomKey(roomId))
+    return raw ? (JSON.parse(raw) as RoomRecord) : null
+  }
+
+  async create(room: RoomRecord) {
+    const created = await this.redis.set(this.roomKey(room.roomId), JSON.stringify(room), "NX")
+    if (created !== "OK") return false
+
+    await this.redis.sadd(this.indexKey, room.roomId)
+    return true
+  }
+
+  async update(roomId: string, mutate: (room: RoomRecord) => RoomRecord | null) {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const raw = await this.redis.get(this.roomKey(roomId))
+      if (!raw) return null
+
+      const next = mutate(JSON.parse(raw) as RoomRecord)
+      const applied = await this.redis.eval(
+        COMPARE_AND_SET,
+        2,
+        this.roomKey(roomId),
+        this.indexKey,
+        raw,
+        next ? JSON.stringify(next) : "",
+        roomId,
+      )
+
+      if (applied === 1) return next
+    }
+
+    throw new Error(`Room ${roomId} is under contention, update abandoned`)
+  }
+
+  async delete(roomId: string) {
+    await this.redis.multi().del(this.roomKey(roomId)).srem(this.indexKey, roomId).exec()
+  }
+
+  async list() {
+    const roomIds = await this.redis.smembers(this.indexKey)
+    if (roomIds.length === 0) return []
+
+    const values = await this.redis.mget(roomIds.map((roomId) => this.roomKey(roomId)))
+    const rooms: RoomRecord[] = []
+    const stale: string[] = []
+
+    values.forEach((raw, index) => {
+      if (raw) {
+        rooms.push(JSON.parse(raw) as RoomRecord)
+      } else {
+        stale.push(roomIds[index])
+      }
+    })
+
+    // Index entries can outlive their room if a delete was interrupted
+    if (stale.length > 0) {
+      await this.redis.srem(this.indexKey, ...stale)
+    }
+
+    return rooms
+  }
+
+  async count() {
+    return this.redis.scard(this.indexKey)
+  }
+}
@@ -0,0 +1,161 @@
+import assert from "node:assert/strict"
+import { beforeEach, describe, test } from "node:test"
+import { MemoryRoomStore } from "./memory-store"
+import { RoomError, RoomService, type RoomServiceOptions } from "./room-service"
+import type { RoomRecord } from "./types"
+
+const options: RoomServiceOptions = {
+  maxRooms: 10,
+  roomTimeoutMs: 60_000,
+  hostGraceMs: 60_000,
+  inviteSecret: "test-secret",
+  cascade: { maxHostChildren: 2, maxDepth: 3 },
+}
+
+function roomError(code: RoomError["code"]) {
+  return (error: unknown) => error instanceof RoomError && error.code === code
+}
+
+describe("RoomService", () => {
+  let rooms: RoomService
+
+  beforeEach(() => {
+    rooms = new RoomService(new MemoryRoomStore(), options)
+  })
+
+  describe("listeners", () => {
+    test("join the room and leave it", async () => {
+      await rooms.joinAsHost("ROOM1", "host")
+      const { room } = await rooms.joinAsListener("ROOM1", "listener-1")
+      assert.deepEqual(room.listeners.map((listener) => listener.socketId), ["listener-1"])
+
+      const left = await rooms.leave("ROOM1", "listener-1", "listener")
+      assert.equal(left.listener?.socketId, "listener-1")
+      assert.equal(left.held, false)
+      assert.equal(left.hostId, "host")
+      assert.deepEqual(left.room?.listeners, [])
+    })
+
+    test("are held while they reconnect, and take their entry over when they return", async () => {
+      await rooms.joinAsHost("ROOM1", "host")
+      await rooms.joinAsListener("ROOM1", "listener-1", { sessionId: "session-1", clientId: "client-1" })
+
+      const left = await rooms.leave("ROOM1", "listener-1", "listener")
+      assert.equal(left.held, true)
+      assert.notEqual(left.listener?.disconnectedAt, null)
+
+      const rejoined = await rooms.joinAsListener("ROOM1", "listener-2", {
+        sessionId: "session-1",
+        clientId: "client-1",
+      })
+      assert.equal(rejoined.replacedListenerId, "listener-1")
+      assert.deepEqual(
+        rejoined.room.listeners.map(({ socketId, disconnectedAt }) => ({ socketId, disconnectedAt })),
+        [{ socketId: "listener-2", disconnectedAt: null }],
+      )
+    })
+
+    test("cannot take over a session that is still connected", async () => {
+      await rooms.joinAsListener("ROOM1", "listener-1", { sessionId: "session-1", clientId: "client-1" })
+
+      await assert.rejects(
+        rooms.joinAsListener("ROOM1", "listener-2", { sessionId: "session-1", clientId: "client-1" }),
+        roomError("session-in-use"),
+      )
+    })
+
+    test("are released when they do not return in time", async () => {
+      await rooms.joinAsHost("ROOM1", "host")
+      await rooms.joinAsListener("ROOM1", "listener-1", { sessionId: "session-1" })
+      await rooms.leave("ROOM1", "listener-1", "listener")
+
+      const released = await rooms.releaseListener("ROOM1", "listener-1")
+      assert.deepEqual(released?.room?.listeners, [])
+      assert.equal(await rooms.releaseListener("ROOM1", "listener-1"), null)
+    })
+  })
+
+  describe("hosts", () => {
+    test("reclaim the room with their host token during the grace period", async () => {
+      const first = await rooms.joinAsHost("ROOM1", "host-1")
+      assert.ok(first.hostToken)
+
+      const left = await rooms.leave("ROOM1", "host-1", "host")
+      assert.equal(left.wasHost, true)
+      assert.equal(left.room?.hostId, null)
+
+      await assert.rejects(rooms.joinAsHost("ROOM1", "intruder"), roomError("host-token-required"))
+      await assert.rejects(
+        rooms.joinAsHost("ROOM1", "intruder", { hostToken: "not-the-token" }),
+        roomError("invalid-host-token"),
+      )
+
+      const reclaimed = await rooms.joinAsHost("ROOM1", "host-2", { hostToken: first.hostToken })
+      assert.equal(reclaimed.room.hostId, "host-2")
+      assert.equal(reclaimed.hostToken, undefined)
+    })
+
+    test("lose the room to the next host once the grace period is over", async () => {
+      rooms = new RoomService(new MemoryRoomStore(), { ...options, hostGraceMs: 0 })
+      await rooms.joinAsHost("ROOM1", "host-1")
+      await rooms.joinAsListener("ROOM1", "listener-1")
+      await rooms.leave("ROOM1", "host-1", "host")
+
+      const next = await rooms.joinAsHost("ROOM1", "host-2")
+      assert.equal(next.room.hostId, "host-2")
+      assert.ok(next.hostToken)
+    })
+  })
+
+  describe("vanity addresses", () => {
+    test("are not claimed by joining them before the show is created", async () => {
+      for (const roomId of ["friday-night", "Friday-Night"]) {
+        await assert.rejects(rooms.joinAsHost(roomId, "host"), roomError("invalid-room"))
+        await assert.rejects(rooms.joinAsListener(roomId, "listener-1"), roomError("invalid-room"))
+      }
+
+      const { room } = await rooms.createRoom({ slug: "friday-night" })
+      assert.equal(room.roomId, "friday-night")
+      const joined = await rooms.joinAsListener(await rooms.resolveRoomId("Friday-Night"), "listener-1")
+      assert.equal(joined.room.roomId, "friday-night")
+    })
+
+    test("leave typed room IDs to be opened on the spot", async () => {
+      const { room } = await rooms.joinAsHost("ABC123", "host")
+      assert.equal(room.roomId, "ABC123")
+    })
+  })
+
+  describe("updates that lose a race", () => {
+    // Runs every mutation once against the room as it was, then lets another instance change it
+    // first, as happens when a compare-and-set fails and the store retries
+    class RacingStore extends MemoryRoomStore {
+      interference: ((room: RoomRecord) => RoomRecord) | null = null
+
+      async update(roomId: string, mutate: (room: RoomRecord) => RoomRecord | null) {
+        const interference = this.interference
+        if (interference) {
+          this.interference = null
+          const room = await this.get(roomId)
+          if (room) mutate(room)
+          await super.update(roomId, interference)
+        }
+        return super.update(roomId, mutate)
+      }
+    }
+
+    test("report what the applied attempt did", async () => {
+      const store = new RacingStore()
+      rooms = new RoomService(store, options)
+      await rooms.joinAsHost("ROOM1", "host")
+      await rooms.joinAsListener("ROOM1", "listener-1", { sessionId: "session-1" })
+
+      // The listener was kicked on another instance while its disconnect was being processed
+      store.interference = (room) => ({ ...room, listeners: [] })
+      const left = await rooms.leave("ROOM1", "listener-1", "listener")
+
+      assert.equal(left.listener, null)
+      assert.equal(left.held, false)
+    })
+  })
+})
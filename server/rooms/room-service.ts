@@ -0,0 +1,1035 @@
+import { randomUUID } from "crypto"
+import { roomSlugSchema, type Role, type RoomMode, type SignalingErrorCode } from "@/lib/signaling"
+import {
+  generateSecret,
+  hashSecret,
+  secretMatches,
+  signDjInvite,
+  signInvite,
+  verifyDjInvite,
+  verifyInvite,
+} from "./tokens"
+import type {
+  ChatMessage,
+  ClientInfo,
+  PlayedTrack,
+  RequestTrackPayload,
+  ShowInfo,
+  SourcePresence,
+  StagePresence,
+  TrackMetadata,
+  TrackRequestStatus,
+} from "@/lib/signaling"
+import { cascadeChanges, rebalanceCascade, type CascadeChange, type CascadeLimits } from "./cascade"
+import type {
+  DjRecord,
+  ListenerPresenceUpdate,
+  ListenerRecord,
+  RoomRecord,
+  RoomStore,
+  TrackRequestRecord,
+} from "./types"
+
+// Played tracks kept per room; the oldest are dropped beyond this
+const MAX_TRACK_HISTORY = 500
+// Chat messages kept per room and sent to everyone who joins
+const CHAT_SCROLLBACK = 100
+// Open track requests one listener may have, and in a whole room
+const MAX_REQUESTS_PER_LISTENER = 3
+const MAX_OPEN_REQUESTS = 100
+
+// The DJ key of whoever holds the room's host token
+export const OWNER_DJ_KEY = "owner"
+
+export class RoomError extends Error {
+  constructor(
+    readonly code: SignalingErrorCode,
+    message: string,
+  ) {
+    super(message)
+    this.name = "RoomError"
+  }
+}
+
+export interface RoomServiceOptions {
+  maxRooms: number
+  // Rooms with nobody connected are removed once they are older than this
+  roomTimeoutMs: number
+  // How long a disconnected host can reclaim the room before it is released
+  hostGraceMs: number
+  // Signs invite links to private rooms; must be the same on every instance
+  inviteSecret: string
+  cascade: CascadeLimits
+}
+
+export interface CreateRoomOptions {
+  isPrivate?: boolean
+  // Listeners of a private room may join with this instead of an invite link
+  passcode?: string
+  maxListeners?: number
+  mode?: RoomMode
+  // Used as the room ID instead of a generated one, so the room's links can be shared ahead of
+  // a scheduled show
+  slug?: string
+  show?: ShowInfo
+}
+
+export interface ListenerJoinOptions {
+  clientId?: string
+  sessionId?: string
+  displayName?: string
+  client?: ClientInfo
+  relayCapacity?: number
+  passcode?: string
+  invite?: string
+}
+
+export interface ListenerJoinResult {
+  room: RoomRecord
+  // Previous socket of a listener that reclaimed its entry after reconnecting
+  replacedListenerId: string | null
+  // Cascade parent that fed the entry before this join and must stop; the join asks for a new one
+  detachedFrom: { listenerId: string; parentId: string } | null
+}
+
+export interface RemoveListenerResult {
+  room: RoomRecord
+  listener: ListenerRecord
+}
+
+export interface HostJoinOptions {
+  hostToken?: string
+  djInvite?: string
+}
+
+export interface HostJoinResult {
+  room: RoomRecord
+  // Only set when a new host token was minted for this join
+  hostToken?: string
+  // Another session of the same DJ, which this join takes over from
+  replacedHostId: string | null
+}
+
+export interface HandOffResult {
+  room: RoomRecord
+  // The DJ who was on air before, null when nobody was
+  previousHostId: string | null
+  // The stage, which ends with a hand-off since the guest's microphone went to the previous DJ
+  endedStage: StagePresence | null
+}
+
+// Who may change the track: the host's socket, the holder of the host token, DJ software with
+// the room's source password, or the source that is connected right now
+export type NowPlayingAuth =
+  | { hostSocketId: string }
+  | { hostToken: string | undefined }
+  | { sourcePassword: string | undefined }
+  | { source: SourcePresence }
+
+export interface SetlistCredentials extends Pick<ListenerJoinOptions, "passcode" | "invite"> {
+  hostToken?: string
+}
+
+export interface LeaveStageResult {
+  room: RoomRecord
+  // null when nobody was on stage
+  ended: StagePresence | null
+}
+
+export interface LeaveResult {
+  room: RoomRecord | null
+  hostId: string | null
+  wasHost: boolean
+  // The departing listener's entry, null when it was not in the room
+  listener: ListenerRecord | null
+  // True when the entry is kept for the listener to reconnect to
+  held: boolean
+  // The stage, when the departing host or guest ended it
+  endedStage: StagePresence | null
+}
+
+// Owns the room lifecycle. All state lives in the RoomStore, so several server
+// instances can share rooms when the store is backed by Redis.
+export class RoomService {
+  constructor(
+    private readonly store: RoomStore,
+    private readonly options: RoomServiceOptions,
+  ) {}
+
+  getRoom(roomId: string) {
+    return this.store.get(roomId)
+  }
+
+  // Vanity addresses match whatever their case, so /listen/Friday-Night finds the show created
+  // as friday-night. Generated IDs, and IDs with a room of their own, must match exactly.
+  async resolveRoomId(roomId: string) {
+    const slug = roomSlugSchema.safeParse(roomId)
+    if (!slug.success || slug.data === roomId || (await this.store.get(roomId))) return roomId
+    return (await this.store.get(slug.data)) ? slug.data : roomId
+  }
+
+  listRooms() {
+    return this.store.list()
+  }
+
+  countRooms() {
+    return this.store.count()
+  }
+
+  // Creates a room owned by whoever receives the returned host token. Rooms with a
+  // passcode are always private. Rooms for a show are kept until it ends, even while empty.
+  async createRoom({ isPrivate = false, passcode, maxListeners, mode = "mesh", slug, show }: CreateRoomOptions = {}) {
+    await this.assertCapacity()
+
+    const hostToken = generateSecret()
+    const roomWithId = (roomId: string): RoomRecord => ({
+      ...this.newRoom(roomId),
+      hostTokenHash: hashSecret(hostToken),
+      isPrivate: isPrivate || !!passcode,
+      passcodeHash: passcode ? hashSecret(passcode) : null,
+      maxListeners: maxListeners ?? null,
+      mode,
+      show: show ?? null,
+    })
+
+    if (slug) {
+      const room = roomWithId(slug)
+      if (!(await this.store.create(room))) {
+        throw new RoomError("slug-taken", `The address ${slug} is already taken`)
+      }
+      return { room, hostToken }
+    }
+
+    let room: RoomRecord
+    do {
+      room = roomWithId(generateRoomId())
+    } while (!(await this.store.create(room)))
+
+    return { room, hostToken }
+  }
+
+  async verifyHostToken(roomId: string, hostToken: string | undefined) {
+    const room = await this.store.get(roomId)
+    return !!room && secretMatches(hostToken, room.hostTokenHash)
+  }
+
+  // Issues a signed invite link that lets a listener into a private room until it expires
+  async createInvite(roomId: string, hostToken: string | undefined, ttlMs: number) {
+    if (!(await this.verifyHostToken(roomId, hostToken))) {
+      throw new RoomError("invalid-host-token", "Invalid host token for this room")
+    }
+
+    const expiresAt = Date.now() + ttlMs
+    return { invite: signInvite({ roomId, expiresAt }, this.options.inviteSecret), expiresAt }
+  }
+
+  // Issues a signed link that lets another DJ host the room until it expires. Every link is for
+  // one DJ: joining with it again replaces the earlier session.
+  async createDjInvite(roomId: string, hostToken: string | undefined, displayName: string, ttlMs: number) {
+    if (!(await this.verifyHostToken(roomId, hostToken))) {
+      throw new RoomError("invalid-host-token", "Invalid host token for this room")
+    }
+
+    const expiresAt = Date.now() + ttlMs
+    const payload = { roomId, djId: randomUUID(), displayName, expiresAt }
+    return { invite: signDjInvite(payload, this.options.inviteSecret), expiresAt }
+  }
+
+  // For listeners that do not join over Socket.IO, such as HTTP stream clients. They have no
+  // roster entry, so streamClientIds lists the room's open streams to count towards its limit.
+  async verifyListenerAccess(
+    roomId: string,
+    { clientId, ...credentials }: Pick<ListenerJoinOptions, "clientId" | "passcode" | "invite">,
+    streamClientIds: (string | null)[] = [],
+  ) {
+    const room = await this.store.get(roomId)
+    if (!room) {
+      throw new RoomError("invalid-room", `Room ${roomId} does not exist`)
+    }
+    if (clientId && room.bannedClientIds.includes(clientId)) {
+      throw new RoomError("banned", "You have been banned from this room")
+    }
+    if (room.isPrivate) {
+      this.assertListenerAccess(room, credentials)
+    }
+
+    // Listen pages that fell back to the stream already hold their place on the roster
+    const onRoster = (id: string | null | undefined) => !!id && room.listeners.some((entry) => entry.clientId === id)
+    const listeners = room.listeners.length + streamClientIds.filter((id) => !onRoster(id)).length
+    if (!onRoster(clientId) && room.maxListeners !== null && listeners >= room.maxListeners) {
+      throw new RoomError("room-full", "This room has reached its listener limit")
+    }
+    return room
+  }
+
+  // Whether the credentials open the room's details: any for public rooms, and for private ones
+  // the host token, or the same passcode or invite as listening
+  canSeeRoom(room: RoomRecord, credentials: SetlistCredentials) {
+    if (!room.isPrivate || secretMatches(credentials.hostToken, room.hostTokenHash)) return true
+    try {
+      this.assertListenerAccess(room, credentials)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  // Every track played in the room so far, ending with the one playing now. In private rooms
+  // the setlist takes the host token, or the same passcode or invite as listening.
+  async getSetlist(roomId: string, credentials: SetlistCredentials): Promise<PlayedTrack[]> {
+    const room = await this.store.get(roomId)
+    if (!room) {
+      throw new RoomError("invalid-room", `Room ${roomId} does not exist`)
+    }
+    if (room.isPrivate && !secretMatches(credentials.hostToken, room.hostTokenHash)) {
+      this.assertListenerAccess(room, credentials)
+    }
+    return room.nowPlaying ? [...room.trackHistory, room.nowPlaying] : room.trackHistory
+  }
+
+  // Replaces the password for the room's Icecast mount, returning the new one. Sources that
+  // are already connected stay connected.
+  async resetSourcePassword(roomId: string, hostToken: string | undefined) {
+    if (!(await this.verifyHostToken(roomId, hostToken))) {
+      throw new RoomError("invalid-host-token", "Invalid host token for this room")
+    }
+
+    const password = generateSecret()
+    const room = await this.store.update(roomId, (room) => ({ ...room, sourcePasswordHash: hashSecret(password) }))
+    this.joined(roomId, room)
+    return password
+  }
+
+  // Claims the room for broadcasting software, which takes over from the host. Its audio is
+  // delivered through the relay, so the room switches to relay mode. Returns the room and the
+  // mode it had before.
+  async connectSource(roomId: string, password: string | undefined, source: SourcePresence) {
+    let previousMode: RoomMode = "mesh"
+
+    const room = await this.store.update(roomId, (room) => {
+      if (!room.sourcePasswordHash || !secretMatches(password, room.sourcePasswordHash)) {
+        throw new RoomError("invalid-source-password", "Invalid source password for this room")
+      }
+      if (room.source) {
+        throw new RoomError("source-active", "Another source is already broadcasting to this room")
+      }
+      previousMode = room.mode
+      return { ...room, mode: "relay", source }
+    })
+
+    return { room: this.joined(roomId, room), previousMode }
+  }
+
+  async disconnectSource(roomId: string) {
+    return this.store.update(roomId, (room) => ({ ...room, source: null }))
+  }
+
+  // Hosting requires the room's host token or a DJ link. Rooms nobody owns yet, and rooms
+  // whose DJs all stayed away past the grace period, go to the first host with a freshly minted
+  // token. A DJ goes on air when nobody is, unless the room is held for the DJ who dropped.
+  async joinAsHost(
+    roomId: string,
+    socketId: string,
+    { hostToken, djInvite }: HostJoinOptions = {},
+  ): Promise<HostJoinResult> {
+    await this.ensureRoom(roomId)
+
+    const now = Date.now()
+    let mintedToken: string | undefined
+    let replacedHostId: string | null = null
+
+    const room = await this.store.update(roomId, (room) => {
+      mintedToken = undefined
+      let dj = this.djIdentity(room, hostToken, djInvite)
+      if (!dj) {
+        const released = room.djs.length === 0 && room.hostLeftAt !== null && !this.isReserved(room, now)
+        if (room.hostTokenHash && !released) {
+          if (hostToken) {
+            throw new RoomError("invalid-host-token", "Invalid host token for this room")
+          }
+          throw room.hostId
+            ? new RoomError("room-has-host", "Room already has a host")
+            : new RoomError("host-token-required", "This room is reserved for its host")
+        }
+
+        mintedToken = generateSecret()
+        room = { ...room, hostTokenHash: hashSecret(mintedToken), hostKey: null }
+        dj = { key: OWNER_DJ_KEY, displayName: null }
+      }
+
+      const { key, displayName } = dj
+      const previous = room.djs.find((entry) => entry.key === key && entry.socketId !== socketId)
+      replacedHostId = previous?.socketId ?? null
+      const onAir = room.hostId
+        ? room.hostId === socketId || room.hostId === replacedHostId
+        : room.hostKey === key || !this.isReserved(room, now)
+
+      const djs = [...room.djs.filter((entry) => entry.key !== key), { socketId, key, displayName, joinedAt: now }]
+      return onAir ? { ...room, djs, hostId: socketId, hostKey: key, hostLeftAt: null } : { ...room, djs }
+    })
+
+    return { room: this.joined(roomId, room), hostToken: mintedToken, replacedHostId }
+  }
+
+  // The DJ on air passes the broadcast to another DJ. When nobody is on air, e.g. because the
+  // DJ dropped, any DJ may take it themselves.
+  async handOff(roomId: string, socketId: string, djId: string): Promise<HandOffResult> {
+    let previousHostId: string | null = null
+    let endedStage: StagePresence | null = null
+
+    const room = await this.store.update(roomId, (room) => {
+      endedStage = null
+      const dj = room.djs.find((entry) => entry.socketId === djId)
+      if (!dj) {
+        throw new RoomError("invalid-dj", "That DJ is no longer in the room")
+      }
+      if (room.hostId ? room.hostId !== socketId : djId !== socketId) {
+        throw new RoomError("not-host", "Only the DJ on air can hand off")
+      }
+
+      previousHostId = room.hostId
+      if (room.hostId === djId) {
+        return room
+      }
+      endedStage = room.stage
+      return { ...room, hostId: djId, hostKey: dj.key, hostLeftAt: null, stage: null }
+    })
+
+    return { room: this.joined(roomId, room), previousHostId, endedStage }
+  }
+
+  async joinAsListener(
+    roomId: string,
+    socketId: string,
+    { clientId, sessionId, displayName, client, relayCapacity = 0, ...credentials }: ListenerJoinOptions = {},
+  ): Promise<ListenerJoinResult> {
+    await this.ensureRoom(roomId)
+
+    let replacedListenerId: string | null = null
+    let detachedFrom: ListenerJoinResult["detachedFrom"] = null
+
+    const room = await this.store.update(roomId, (room) => {
+      replacedListenerId = null
+      detachedFrom = null
+      if (room.bannedSocketIds.includes(socketId) || (clientId && room.bannedClientIds.includes(clientId))) {
+        throw new RoomError("banned", "You have been banned from this room")
+      }
+      if (room.isPrivate) {
+        this.assertListenerAccess(room, credentials)
+      }
+      // Joining again means the audio stopped, so in a cascade room it asks for a new parent
+      const present = room.listeners.find((listener) => listener.socketId === socketId)
+      if (present) {
+        detachedFrom = present.parentId ? { listenerId: socketId, parentId: present.parentId } : null
+        room.listeners = room.listeners.map((listener) =>
+          listener === present ? { ...listener, parentId: null } : listener,
+        )
+        return room
+      }
+
+      // A duplicated tab copies the session ID while the original is still listening, so only an
+      // entry whose socket dropped can be taken over, and the copy is told to start a session of its own
+      const sameSession = sessionId ? room.listeners.filter((listener) => listener.sessionId === sessionId) : []
+      if (sameSession.some((listener) => listener.disconnectedAt === null)) {
+        throw new RoomError("session-in-use", "This session is already listening in another tab")
+      }
+
+      // A returning listener takes its old entry over, keeping its place under the listener limit
+      const previous = sameSession.find((listener) => listener.clientId === (clientId ?? null))
+      if (previous) {
+        replacedListenerId = previous.socketId
+        detachedFrom = previous.parentId ? { listenerId: previous.socketId, parentId: previous.parentId } : null
+        room.listeners = room.listeners.map((listener) =>
+          listener === previous
+            ? {
+                ...listener,
+                socketId,
+                clientId: clientId ?? null,
+                disconnectedAt: null,
+                connectionState: "new",
+                relayCapacity,
+                parentId: null,
+              }
+            : listener,
+        )
+        return room
+      }
+
+      if (room.maxListeners !== null && room.listeners.length >= room.maxListeners) {
+        throw new RoomError("room-full", "This room has reached its listener limit")
+      }
+
+      room.listeners.push({
+        socketId,
+        clientId: clientId ?? null,
+        sessionId: sessionId ?? null,
+        joinedAt: Date.now(),
+        disconnectedAt: null,
+        displayName: displayName || null,
+        client: client ?? null,
+        connectionState: "new",
+        stats: null,
+        statsUpdatedAt: null,
+        relayCapacity,
+        parentId: null,
+      })
+      return room
+    })
+
+    return { room: this.joined(roomId, room), replacedListenerId, detachedFrom }
+  }
+
+  // Applies a listener's report about itself. Resolves to null when the listener is no
+  // longer in the room.
+  async updateListener(roomId: string, socketId: string, update: ListenerPresenceUpdate) {
+    const room = await this.store.update(roomId, (room) => {
+      room.listeners = room.listeners.map((listener) =>
+        listener.socketId === socketId ? { ...listener, ...update } : listener,
+      )
+      return room
+    })
+
+    const listener = room?.listeners.find((listener) => listener.socketId === socketId)
+    return room && listener ? { room, listener } : null
+  }
+
+  // Removes a listener at the host's request. Banning also blocks the listener's socket
+  // and client ID from rejoining for the rest of the session.
+  async removeListener(
+    roomId: string,
+    hostSocketId: string,
+    listenerId: string,
+    ban: boolean,
+  ): Promise<RemoveListenerResult> {
+    // Always assigned by the mutation, which throws when the listener is missing
+    let removed!: ListenerRecord
+
+    const room = await this.store.update(roomId, (room) => {
+      this.assertHost(room, hostSocketId)
+
+      const listener = room.listeners.find((listener) => listener.socketId === listenerId)
+      if (!listener) {
+        throw new RoomError("invalid-listener", "That listener is no longer in the room")
+      }
+      removed = listener
+
+      room.listeners = room.listeners.filter((listener) => listener.socketId !== listenerId)
+      if (ban) {
+        room.bannedSocketIds.push(listenerId)
+        if (removed.clientId && !room.bannedClientIds.includes(removed.clientId)) {
+          room.bannedClientIds.push(removed.clientId)
+        }
+      }
+      return room
+    })
+
+    return { room: this.joined(roomId, room), listener: removed }
+  }
+
+  async setMaxListeners(roomId: string, hostSocketId: string, maxListeners: number | null) {
+    const room = await this.store.update(roomId, (room) => {
+      this.assertHost(room, hostSocketId)
+      return { ...room, maxListeners }
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  async setMode(roomId: string, hostSocketId: string, mode: RoomMode) {
+    const room = await this.store.update(roomId, (room) => {
+      this.assertHost(room, hostSocketId)
+      if (room.source && mode !== "relay") {
+        throw new RoomError("source-active", "Rooms fed by broadcasting software always use the relay")
+      }
+      return { ...room, mode }
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  // Starts a new track, moving the previous one to the history, or clears it with null. DJ
+  // software repeats the current track now and then, which only refreshes its details.
+  async setNowPlaying(roomId: string, auth: NowPlayingAuth, track: TrackMetadata | null) {
+    const now = Date.now()
+    const room = await this.store.update(roomId, (room) => {
+      this.assertNowPlayingAuth(room, auth)
+
+      const current = room.nowPlaying
+      if (track && current && sameTrack(track, current)) {
+        return { ...room, nowPlaying: { ...track, startedAt: current.startedAt, endedAt: null } }
+      }
+      if (!track && !current) {
+        return room
+      }
+
+      return {
+        ...room,
+        nowPlaying: track ? { ...track, startedAt: now, endedAt: null } : null,
+        trackHistory: current
+          ? [...room.trackHistory, { ...current, endedAt: now }].slice(-MAX_TRACK_HISTORY)
+          : room.trackHistory,
+      }
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  // Posts a message as the room's host or one of its listeners, under the listener's current name
+  async postChatMessage(roomId: string, socketId: string, text: string) {
+    const message: ChatMessage = { messageId: randomUUID(), role: "host", displayName: null, text, sentAt: Date.now() }
+    const room = await this.store.update(roomId, (room) => {
+      const dj = room.djs.find((entry) => entry.socketId === socketId)
+      const listener = room.listeners.find((entry) => entry.socketId === socketId)
+      if (!dj && !listener) {
+        throw new RoomError("invalid-room", "Join the room to chat")
+      }
+
+      if (listener) {
+        message.role = "listener"
+        message.displayName = listener.displayName
+      } else if (dj) {
+        message.displayName = dj.displayName
+      }
+      return { ...room, chat: [...room.chat, message].slice(-CHAT_SCROLLBACK) }
+    })
+
+    return { room: this.joined(roomId, room), message }
+  }
+
+  async deleteChatMessage(roomId: string, hostSocketId: string, messageId: string) {
+    const room = await this.store.update(roomId, (room) => {
+      this.assertHost(room, hostSocketId)
+      return { ...room, chat: room.chat.filter((message) => message.messageId !== messageId) }
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  // One listener at a time may be on stage. Inviting the listener who is already there
+  // changes nothing.
+  async inviteToStage(roomId: string, hostSocketId: string, listenerId: string) {
+    const room = await this.store.update(roomId, (room) => {
+      this.assertHost(room, hostSocketId)
+
+      const listener = room.listeners.find((entry) => entry.socketId === listenerId)
+      if (!listener || listener.disconnectedAt !== null) {
+        throw new RoomError("invalid-listener", "That listener is no longer in the room")
+      }
+      if (room.stage?.listenerId === listenerId) {
+        return room
+      }
+      if (room.stage) {
+        throw new RoomError("stage-occupied", "Someone else is on stage. Remove them first.")
+      }
+      return { ...room, stage: { listenerId, status: "invited" } }
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  async respondToStageInvite(roomId: string, socketId: string, accept: boolean) {
+    const room = await this.store.update(roomId, (room) => {
+      if (room.stage?.listenerId !== socketId || room.stage.status !== "invited") {
+        throw new RoomError("invalid-listener", "You have not been invited on stage")
+      }
+      return { ...room, stage: accept ? { listenerId: socketId, status: "live" } : null }
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  // The host takes the guest off stage, or the guest steps down. Anyone else asking changes nothing.
+  async leaveStage(roomId: string, socketId: string): Promise<LeaveStageResult> {
+    let ended: StagePresence | null = null
+
+    const room = await this.store.update(roomId, (room) => {
+      ended = null
+      if (!room.stage || (room.hostId !== socketId && room.stage.listenerId !== socketId)) {
+        return room
+      }
+      ended = room.stage
+      return { ...room, stage: null }
+    })
+
+    return { room: this.joined(roomId, room), ended }
+  }
+
+  // Adds a listener's request to the queue. Requesting a track that is already queued votes
+  // for it instead, which does not count towards the listener's limit.
+  async requestTrack(roomId: string, socketId: string, track: RequestTrackPayload) {
+    const room = await this.store.update(roomId, (room) => {
+      const listener = this.assertListener(room, socketId)
+      const requesterId = requestIdentity(listener)
+
+      const queued = room.trackRequests.find((request) => sameTrack(request, track))
+      if (queued) {
+        return replaceRequest(room, queued, withVote(queued, requesterId))
+      }
+
+      const open = room.trackRequests.filter((request) => request.requesterId === requesterId).length
+      if (open >= MAX_REQUESTS_PER_LISTENER) {
+        throw new RoomError("request-limit", `You can have up to ${MAX_REQUESTS_PER_LISTENER} requests in the queue`)
+      }
+      if (room.trackRequests.length >= MAX_OPEN_REQUESTS) {
+        throw new RoomError("request-limit", "The request queue is full")
+      }
+
+      const request: TrackRequestRecord = {
+        requestId: randomUUID(),
+        title: track.title,
+        ...(track.artist && { artist: track.artist }),
+        requestedBy: listener.displayName,
+        status: "pending",
+        requestedAt: Date.now(),
+        requesterId,
+        voterIds: [requesterId],
+      }
+      return { ...room, trackRequests: rankRequests([...room.trackRequests, request]) }
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  async voteTrackRequest(roomId: string, socketId: string, requestId: string) {
+    const room = await this.store.update(roomId, (room) => {
+      const request = this.findRequest(room, requestId)
+      return replaceRequest(room, request, withVote(request, requestIdentity(this.assertListener(room, socketId))))
+    })
+
+    return this.joined(roomId, room)
+  }
+
+  // Accepting keeps the request in the queue; rejecting and playing it take it out
+  async updateTrackRequest(
+    roomId: string,
+    hostSocketId: string,
+    requestId: string,
+    status: Exclude<TrackRequestStatus, "pending">,
+  ) {
+    // Always assigned by the mutation, which throws when the request is missing
+    let updated!: TrackRequestRecord
+
+    const room = await this.store.update(roomId, (room) => {
+      this.assertHost(room, hostSocketId)
+      const request = this.findRequest(room, requestId)
+      updated = { ...request, status }
+      return replaceRequest(room, request, status === "accepted" ? updated : null)
+    })
+
+    return { room: this.joined(roomId, room), request: updated }
+  }
+
+  // Places every connected listener of a cascade room in the distribution tree, moving only
+  // those whose parent is gone. In other modes it takes everyone out of the tree.
+  async rebalanceCascade(roomId: string) {
+    let changes: CascadeChange[] = []
+
+    const room = await this.store.update(roomId, (room) => {
+      const balanced = rebalanceCascade(room, this.options.cascade)
+      changes = cascadeChanges(room, balanced)
+      return balanced
+    })
+
+    return { room, changes }
+  }
+
+  // Listeners that can identify themselves on return are held in the room as disconnected
+  // instead of being removed; call releaseListener once they have had time to reconnect.
+  async leave(roomId: string, socketId: string, role: Role): Promise<LeaveResult> {
+    let wasHost = false
+    let hostId: string | null = null
+    let listener: ListenerRecord | null = null
+    let held = false
+    let endedStage: StagePresence | null = null
+
+    const now = Date.now()
+    const room = await this.store.update(roomId, (room) => {
+      wasHost = false
+      listener = null
+      held = false
+      endedStage = null
+      if (role === "host") {
+        room.djs = room.djs.filter((dj) => dj.socketId !== socketId)
+        if (room.hostId === socketId) {
+          wasHost = true
+          room.hostId = null
+          room.hostLeftAt = now
+        }
+      } else if (role === "listener") {
+        const departing = room.listeners.find((entry) => entry.socketId === socketId)
+        if (departing?.sessionId) {
+          const heldEntry: ListenerRecord = { ...departing, disconnectedAt: now, connectionState: "disconnected" }
+          room.listeners = room.listeners.map((entry) => (entry === departing ? heldEntry : entry))
+          listener = heldEntry
+          held = true
+        } else if (departing) {
+          room.listeners = room.listeners.filter((entry) => entry !== departing)
+          listener = departing
+        }
+      }
+
+      // The guest's microphone went to the host, so the stage ends with either of them
+      if (room.stage && (wasHost || room.stage.listenerId === socketId)) {
+        endedStage = room.stage
+        room.stage = null
+      }
+
+      hostId = room.hostId
+      return this.keepOrDelete(room, now)
+    })
+
+    return { room, hostId, wasHost, listener, held, endedStage }
+  }
+
+  // Drops a held listener that did not reconnect in time. Resolves to the room, or null
+  // when the listener had already reconnected or left.
+  async releaseListener(roomId: string, socketId: string) {
+    let released = false
+
+    const room = await this.store.update(roomId, (room) => {
+      const listeners = room.listeners.filter(
+        (listener) => !(listener.socketId === socketId && listener.disconnectedAt !== null),
+      )
+      released = listeners.length !== room.listeners.length
+      return released ? this.keepOrDelete({ ...room, listeners }, Date.now()) : room
+    })
+
+    return released ? { room } : null
+  }
+
+  // Deletes abandoned rooms past the configured timeout, returning their IDs. Rooms for a show
+  // wait for it however far ahead it is, and once it has ended expire like the host just left.
+  async expireRooms(now = Date.now()) {
+    const expired: string[] = []
+
+    for (const room of await this.store.list()) {
+      if (this.isScheduled(room, now)) continue
+
+      const abandonedAt = room.show
+        ? Math.max(room.show.endsAt, room.hostLeftAt ?? 0)
+        : (room.hostLeftAt ?? room.createdAt)
+      const timeout = room.hostLeftAt || room.show ? this.options.hostGraceMs : this.options.roomTimeoutMs
+
+      const empty = room.djs.length === 0 && room.listeners.length === 0
+      if (!room.hostId && !room.source && empty && now - abandonedAt > timeout) {
+        await this.store.delete(room.roomId)
+        expired.push(room.roomId)
+      }
+    }
+
+    return expired
+  }
+
+  // Drops hosts and listeners whose sockets are gone, e.g. because the instance holding
+  // them crashed before it could process their disconnect. Returns the rooms changed.
+  async pruneMembers(isConnected: (socketId: string) => boolean) {
+    const pruned: string[] = []
+    const now = Date.now()
+
+    for (const { roomId } of await this.store.list()) {
+      let changed = false
+
+      await this.store.update(roomId, (room) => {
+        const listeners = room.listeners.filter((listener) => isConnected(listener.socketId))
+        const djs = room.djs.filter((dj) => isConnected(dj.socketId))
+        const hostId = room.hostId && isConnected(room.hostId) ? room.hostId : null
+        const hostLeftAt = room.hostId && !hostId ? now : room.hostLeftAt
+        changed =
+          hostId !== room.hostId || listeners.length !== room.listeners.length || djs.length !== room.djs.length
+        return { ...room, hostId, hostLeftAt, djs, listeners }
+      })
+
+      if (changed) pruned.push(roomId)
+    }
+
+    return pruned
+  }
+
+  // Vanity addresses are only handed out by createRoom, so joining one nobody created yet, in any
+  // case, does not claim it ahead of the show's owner. Typed and generated IDs are upper case.
+  private async ensureRoom(roomId: string) {
+    if (await this.store.get(roomId)) return
+
+    if (roomSlugSchema.safeParse(roomId).success && roomId !== roomId.toUpperCase()) {
+      throw new RoomError("invalid-room", `There is no room at ${roomId}`)
+    }
+    await this.assertCapacity()
+    // A concurrent join may have created it first, which is fine
+    await this.store.create(this.newRoom(roomId))
+  }
+
+  private async assertCapacity() {
+    if ((await this.store.count()) >= this.options.maxRooms) {
+      throw new RoomError("server-at-capacity", "Maximum number of rooms reached")
+    }
+  }
+
+  // Clean up the room once nobody is left in it, unless the host may still come back or its
+  // show is yet to end
+  private keepOrDelete(room: RoomRecord, now: number) {
+    const occupied = room.djs.length > 0 || room.listeners.length > 0
+    const kept = occupied || this.isReserved(room, now) || this.isScheduled(room, now)
+    return room.hostId || room.source || kept ? room : null
+  }
+
+  private assertHost(room: RoomRecord, socketId: string) {
+    if (room.hostId !== socketId) {
+      throw new RoomError("not-host", "Only the host can do that")
+    }
+  }
+
+  // Who is joining as host, from the host token or a DJ link. null when neither was given.
+  private djIdentity(
+    room: RoomRecord,
+    hostToken: string | undefined,
+    djInvite: string | undefined,
+  ): Pick<DjRecord, "key" | "displayName"> | null {
+    if (secretMatches(hostToken, room.hostTokenHash)) {
+      return { key: OWNER_DJ_KEY, displayName: null }
+    }
+    if (!djInvite) {
+      return null
+    }
+
+    const payload = verifyDjInvite(djInvite, this.options.inviteSecret)
+    if (!payload || payload.roomId !== room.roomId) {
+      throw new RoomError("invalid-invite", "This DJ link is not valid for this room")
+    }
+    if (payload.expiresAt < Date.now()) {
+      throw new RoomError("invalid-invite", "This DJ link has expired")
+    }
+    return { key: payload.djId, displayName: payload.displayName }
+  }
+
+  private assertListener(room: RoomRecord, socketId: string) {
+    const listener = room.listeners.find((entry) => entry.socketId === socketId)
+    if (!listener) {
+      throw new RoomError("invalid-listener", "Only listeners in the room can do that")
+    }
+    return listener
+  }
+
+  private findRequest(room: RoomRecord, requestId: string) {
+    const request = room.trackRequests.find((entry) => entry.requestId === requestId)
+    if (!request) {
+      throw new RoomError("invalid-request", "That request is no longer in the queue")
+    }
+    return request
+  }
+
+  private assertNowPlayingAuth(room: RoomRecord, auth: NowPlayingAuth) {
+    if ("hostSocketId" in auth) {
+      this.assertHost(room, auth.hostSocketId)
+    } else if ("hostToken" in auth) {
+      if (!secretMatches(auth.hostToken, room.hostTokenHash)) {
+        throw new RoomError("invalid-host-token", "Invalid host token for this room")
+      }
+    } else if ("sourcePassword" in auth) {
+      if (!secretMatches(auth.sourcePassword, room.sourcePasswordHash)) {
+        throw new RoomError("invalid-source-password", "Invalid source password for this room")
+      }
+    } else if (room.source?.connectedAt !== auth.source.connectedAt) {
+      throw new RoomError("invalid-source-password", "This source is no longer connected to the room")
+    }
+  }
+
+  // Private rooms admit listeners with a valid, unexpired invite or the room passcode
+  private assertListenerAccess(room: RoomRecord, { passcode, invite }: Omit<ListenerJoinOptions, "clientId">) {
+    if (invite) {
+      const payload = verifyInvite(invite, this.options.inviteSecret)
+      if (!payload || payload.roomId !== room.roomId) {
+        throw new RoomError("invalid-invite", "This invite link is not valid for this room")
+      }
+      if (payload.expiresAt < Date.now()) {
+        throw new RoomError("invalid-invite", "This invite link has expired")
+      }
+      return
+    }
+
+    if (!passcode) {
+      throw new RoomError("passcode-required", "This room is private. Enter the passcode or use an invite link.")
+    }
+    if (!secretMatches(passcode, room.passcodeHash)) {
+      throw new RoomError("invalid-passcode", "Incorrect passcode")
+    }
+  }
+
+  // A host that disconnected keeps the room to itself until the grace period runs out
+  private isReserved(room: RoomRecord, now: number) {
+    return room.hostLeftAt !== null && now - room.hostLeftAt < this.options.hostGraceMs
+  }
+
+  private isScheduled(room: RoomRecord, now: number) {
+    return !!room.show && now < room.show.endsAt
+  }
+
+  private joined(roomId: string, room: RoomRecord | null) {
+    if (!room) {
+      throw new RoomError("invalid-room", `Room ${roomId} no longer exists`)
+    }
+    return room
+  }
+
+  private newRoom(roomId: string): RoomRecord {
+    return {
+      roomId,
+      hostId: null,
+      hostTokenHash: null,
+      hostLeftAt: null,
+      hostKey: null,
+      djs: [],
+      isPrivate: false,
+      passcodeHash: null,
+      listeners: [],
+      maxListeners: null,
+      mode: "mesh",
+      sourcePasswordHash: null,
+      source: null,
+      nowPlaying: null,
+      trackHistory: [],
+      chat: [],
+      stage: null,
+      trackRequests: [],
+      bannedSocketIds: [],
+      bannedClientIds: [],
+      show: null,
+      createdAt: Date.now(),
+    }
+  }
+}
+
+function sameTrack(a: TrackMetadata, b: TrackMetadata) {
+  const normalize = (value: string | undefined) => value?.trim().toLowerCase() ?? ""
+  return normalize(a.title) === normalize(b.title) && normalize(a.artist) === normalize(b.artist)
+}
+
+function requestIdentity(listener: ListenerRecord) {
+  return listener.sessionId ?? listener.socketId
+}
+
+function withVote(request: TrackRequestRecord, voterId: string) {
+  if (request.voterIds.includes(voterId)) {
+    throw new RoomError("invalid-request", "You already voted for this track")
+  }
+  return { ...request, voterIds: [...request.voterIds, voterId] }
+}
+
+// Swaps a request for its new state, or takes it out of the queue with null, and re-ranks the queue
+function replaceRequest(room: RoomRecord, request: TrackRequestRecord, next: TrackRequestRecord | null) {
+  const trackRequests = room.trackRequests.flatMap((entry) => (entry !== request ? [entry] : next ? [next] : []))
+  return { ...room, trackRequests: rankRequests(trackRequests) }
+}
+
+// Accepted requests come first, then the most voted; ties go to whoever asked first
+function rankRequests(requests: TrackRequestRecord[]) {
+  return [...requests].sort(
+    (a, b) =>
+      Number(b.status === "accepted") - Number(a.status === "accepted") ||
+      b.voterIds.length - a.voterIds.length ||
+      a.requestedAt - b.requestedAt,
+  )
+}
+
+function generateRoomId() {
+  return Math.random().toString(36).substring(2, 8).toUpperCase()
+}
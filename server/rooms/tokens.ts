@@ -0,0 +1,105 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto"
+
+// Room secrets are only ever stored hashed, so a leaked room store cannot be used to take over rooms
+
+export function generateSecret() {
+  return randomBytes(24).toString("base64url")
+}
+
+export function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex")
+}
+
+export function secretMatches(secret: string | undefined, hash: string | null) {
+  if (!secret || !hash) return false
+  return timingSafeEqual(Buffer.from(hashSecret(secret), "hex"), Buffer.from(hash, "hex"))
+}
+
+interface InvitePayload {
+  roomId: string
+  expiresAt: number
+}
+
+interface DjInvitePayload {
+  roomId: string
+  djId: string
+  displayName: string
+  expiresAt: number
+}
+
+interface DownloadPayload {
+  roomId: string
+  recordingId: string
+  expiresAt: number
+}
+
+// Invites are `<payload>.<signature>` where the payload is base64url JSON, signed with HMAC-SHA256
+export function signInvite(payload: InvitePayload, secret: string) {
+  return signPayload(payload, secret)
+}
+
+// Returns the invite payload when the signature is valid, regardless of expiry
+export function verifyInvite(invite: string, secret: string): InvitePayload | null {
+  const payload = verifyPayload<InvitePayload>(invite, secret)
+  if (typeof payload?.roomId !== "string" || typeof payload.expiresAt !== "number") return null
+  return payload as InvitePayload
+}
+
+// DJ links let someone else host the room alongside its owner. They are signed like invites,
+// under their own prefix.
+export function signDjInvite(payload: DjInvitePayload, secret: string) {
+  return signPayload(payload, secret, "dj:")
+}
+
+export function verifyDjInvite(token: string, secret: string): DjInvitePayload | null {
+  const payload = verifyPayload<DjInvitePayload>(token, secret, "dj:")
+  if (
+    typeof payload?.roomId !== "string" ||
+    typeof payload.djId !== "string" ||
+    typeof payload.displayName !== "string" ||
+    typeof payload.expiresAt !== "number"
+  ) {
+    return null
+  }
+  return payload as DjInvitePayload
+}
+
+// Download links for recordings are signed the same way, under a prefix so that neither kind of
+// token can be passed off as the other
+export function signDownload(payload: DownloadPayload, secret: string) {
+  return signPayload(payload, secret, "download:")
+}
+
+export function verifyDownload(token: string, secret: string): DownloadPayload | null {
+  const payload = verifyPayload<DownloadPayload>(token, secret, "download:")
+  if (
+    typeof payload?.roomId !== "string" ||
+    typeof payload.recordingId !== "string" ||
+    typeof payload.expiresAt !== "number"
+  ) {
+    return null
+  }
+  return payload as DownloadPayload
+}
+
+function signPayload(payload: object, secret: string, prefix = "") {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url")
+  return `${body}.${createHmac("sha256", secret).update(prefix + body).digest("base64url")}`
+}
+
+// The payload's fields are for the caller to check
+function verifyPayload<T>(token: string, secret: string, prefix = ""): Partial<T> | null {
+  const [body, signature] = token.split(".")
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(createHmac("sha256", secret).update(prefix + body).digest("base64url"))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString())
+    return typeof payload === "object" && payload !== null ? payload : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,111 @@
+import type {
+  ChatMessage,
+  ClientInfo,
+  ConnectionStats,
+  PeerConnectionState,
+  PlayedTrack,
+  RoomMode,
+  ShowInfo,
+  SourcePresence,
+  StagePresence,
+  TrackRequest,
+} from "@/lib/signaling"
+
+export interface ListenerRecord {
+  socketId: string
+  // Stable per-browser identifier supplied by the client, used for bans
+  clientId: string | null
+  // Per-tab identifier that lets a reconnecting listener reclaim this entry
+  sessionId: string | null
+  joinedAt: number
+  // Set while the listener is disconnected and may still come back
+  disconnectedAt: number | null
+  displayName: string | null
+  client: ClientInfo | null
+  // As reported by the listener's peer connection to the host
+  connectionState: PeerConnectionState
+  stats: ConnectionStats | null
+  statsUpdatedAt: number | null
+  // Children this listener offered to feed in cascade mode
+  relayCapacity: number
+  // Its parent in the cascade tree, see ListenerPresence
+  parentId: string | null
+}
+
+// Someone connected to host the room: the holder of the host token, or a DJ who joined with a
+// DJ link. key identifies the DJ across reconnects: OWNER_DJ_KEY, or the DJ link's ID.
+export interface DjRecord {
+  socketId: string
+  key: string
+  // From the DJ link; null for the room's owner
+  displayName: string | null
+  joinedAt: number
+}
+
+// Fields a listener may change about itself after joining
+export type ListenerPresenceUpdate = Partial<
+  Pick<ListenerRecord, "displayName" | "connectionState" | "stats" | "statsUpdatedAt">
+>
+
+// Requesters and voters are identified by session ID, or by socket ID for listeners without one,
+// so a listener keeps its requests and votes across reconnects
+export interface TrackRequestRecord extends Omit<TrackRequest, "votes"> {
+  requesterId: string
+  voterIds: string[]
+}
+
+export interface RoomRecord {
+  roomId: string
+  hostId: string | null
+  // SHA-256 of the secret that proves room ownership; null until someone claims the room
+  hostTokenHash: string | null
+  // When the host last disconnected, used for the reclaim grace period
+  hostLeftAt: number | null
+  // The key of the DJ who held the host slot last; only they may reclaim it during the grace period
+  hostKey: string | null
+  // Every DJ connected to the room. hostId is the one on air; the others stand by to take over.
+  djs: DjRecord[]
+  // Private rooms are unlisted and need a passcode or invite link to join
+  isPrivate: boolean
+  passcodeHash: string | null
+  listeners: ListenerRecord[]
+  // Host-set cap on concurrent listeners; null means unlimited
+  maxListeners: number | null
+  // Direct host-to-listener connections, the server relay, or a tree of listeners
+  mode: RoomMode
+  // SHA-256 of the password broadcasting software uses on the room's Icecast mount; null until
+  // the host sets one
+  sourcePasswordHash: string | null
+  // The external source currently broadcasting to the room
+  source: SourcePresence | null
+  // The track playing now, and the ones before it, oldest first
+  nowPlaying: PlayedTrack | null
+  trackHistory: PlayedTrack[]
+  // The chat scrollback, oldest first
+  chat: ChatMessage[]
+  // The listener speaking on air, or invited to
+  stage: StagePresence | null
+  // Open track requests, ranked: accepted ones first, then by votes and age
+  trackRequests: TrackRequestRecord[]
+  // The show the room was scheduled for; null for rooms opened on the spot
+  show: ShowInfo | null
+  // Bans last for the lifetime of the room
+  bannedSocketIds: string[]
+  bannedClientIds: string[]
+  createdAt: number
+}
+
+// Persistence for room state. Implementations must apply `update` atomically so that
+// concurrent joins on different server instances cannot overwrite each other.
+export interface RoomStore {
+  get(roomId: string): Promise<RoomRecord | null>
+  // Resolves to false when a room with the same ID already exists
+  create(room: RoomRecord): Promise<boolean>
+  // `mutate` receives a copy of the room and returns its next state, or null to delete it.
+  // Resolves to the stored result, or null when the room does not exist or was deleted.
+  // Stores may call it again when the room changed underneath, so it must not keep state between calls.
+  update(roomId: string, mutate: (room: RoomRecord) => RoomRecord | null): Promise<RoomRecord | null>
+  delete(roomId: string): Promise<void>
+  list(): Promise<RoomRecord[]>
+  count(): Promise<number>
+}
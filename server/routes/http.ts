@@ -0,0 +1,61 @@
+import type { NextFunction, Request, RequestParamHandler, Response } from "express"
+import type { SignalingErrorCode } from "@/lib/signaling"
+import { RoomError, type RoomService } from "../rooms"
+
+const statusByCode: Partial<Record<SignalingErrorCode, number>> = {
+  "server-at-capacity": 429,
+  "invalid-room": 404,
+  "invalid-host-token": 403,
+  "host-token-required": 401,
+  "passcode-required": 401,
+  "invalid-passcode": 403,
+  "invalid-invite": 403,
+  "not-host": 403,
+  "banned": 403,
+  "room-full": 409,
+  "relay-unavailable": 503,
+  "invalid-source-password": 401,
+  "source-active": 409,
+  "recording-unavailable": 503,
+  "invalid-recording": 404,
+  "slug-taken": 409,
+}
+
+// Host-only endpoints take the room's host token as `Authorization: Bearer <token>`
+export function bearerToken(req: Request) {
+  const header = req.get("authorization")
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : undefined
+}
+
+// Broadcasting software authenticates like with Icecast: basic auth with the room's source
+// password. Only the password is checked; the user name is conventionally "source".
+export function basicAuthPassword(header: string | undefined) {
+  if (!header?.startsWith("Basic ")) return undefined
+  const credentials = Buffer.from(header.slice("Basic ".length), "base64").toString("utf8")
+  const separator = credentials.indexOf(":")
+  return separator === -1 ? undefined : credentials.slice(separator + 1)
+}
+
+// Rewrites :roomId to the room it addresses, for routers to install with router.param("roomId", ...)
+export function resolveRoomIdParam(rooms: RoomService): RequestParamHandler {
+  return (req, res, next, roomId: string) => {
+    rooms.resolveRoomId(roomId).then((resolved) => {
+      req.params.roomId = resolved
+      next()
+    }, next)
+  }
+}
+
+export function roomErrorStatus(error: RoomError) {
+  return statusByCode[error.code] ?? 400
+}
+
+// Turns room errors thrown by route handlers into JSON responses with a matching status
+export function handleRoomErrors(error: unknown, req: Request, res: Response, next: NextFunction) {
+  if (!(error instanceof RoomError)) {
+    next(error)
+    return
+  }
+
+  res.status(roomErrorStatus(error)).json({ error: error.message, code: error.code })
+}
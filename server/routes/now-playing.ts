@@ -0,0 +1,81 @@
+import { Router, type Request } from "express"
+import { z } from "zod"
+import { trackMetadataSchema } from "@/lib/signaling"
+import { recordingFileName } from "../recordings"
+import type { NowPlayingAuth, RoomService } from "../rooms"
+import { setlistCsv, setlistCue, tracksInRange } from "../setlist"
+import type { Signaling } from "../signaling"
+import { basicAuthPassword, bearerToken, handleRoomErrors, resolveRoomIdParam } from "./http"
+
+// start and end (ms since the epoch) narrow the setlist down to e.g. a recording; CUE sheet
+// positions are counted from start. Private rooms also take the passcode or an invite.
+const setlistQuerySchema = z.object({
+  format: z.enum(["json", "csv", "cue"]).default("json"),
+  start: z.coerce.number().int().min(0).optional(),
+  end: z.coerce.number().int().min(0).optional(),
+  passcode: z.string().max(64).optional(),
+  invite: z.string().max(512).optional(),
+})
+
+// The host token as a bearer token, or the room's source password as basic auth so DJ software
+// set up for the Icecast mount can use the same credentials
+function nowPlayingAuth(req: Request): NowPlayingAuth {
+  const password = basicAuthPassword(req.get("authorization"))
+  return password !== undefined ? { sourcePassword: password } : { hostToken: bearerToken(req) }
+}
+
+export function createNowPlayingRouter(rooms: RoomService, signaling: Signaling) {
+  const router = Router()
+  router.param("roomId", resolveRoomIdParam(rooms))
+
+  // Sets the track that is playing now, e.g. {"title": "...", "artist": "...", "bpm": 124}
+  router.post("/api/rooms/:roomId/now-playing", async (req, res) => {
+    const body = trackMetadataSchema.safeParse(req.body)
+    if (!body.success) {
+      res.status(400).json({ error: body.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    const room = await rooms.setNowPlaying(req.params.roomId, nowPlayingAuth(req), body.data)
+    signaling.announceNowPlaying(room)
+    res.json({ track: room.nowPlaying })
+  })
+
+  router.delete("/api/rooms/:roomId/now-playing", async (req, res) => {
+    const room = await rooms.setNowPlaying(req.params.roomId, nowPlayingAuth(req), null)
+    signaling.announceNowPlaying(room)
+    res.json({ track: null })
+  })
+
+  router.get("/api/rooms/:roomId/setlist", async (req, res) => {
+    const query = setlistQuerySchema.safeParse(req.query)
+    if (!query.success) {
+      res.status(400).json({ error: query.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    const { roomId } = req.params
+    const { format, passcode, invite } = query.data
+    const tracks = await rooms.getSetlist(roomId, { hostToken: bearerToken(req), passcode, invite })
+    const range = { start: query.data.start ?? tracks[0]?.startedAt ?? Date.now(), end: query.data.end }
+
+    res.set("Cache-Control", "no-store")
+    if (format === "json") {
+      res.json({ roomId, tracks: tracksInRange(tracks, range) })
+      return
+    }
+
+    // The CUE sheet refers to the file a server recording started at the same time downloads as
+    const fileName = recordingFileName(roomId, range.start)
+    res.attachment(fileName.replace(/\.ogg$/, `.${format}`))
+    if (format === "csv") {
+      res.type("text/csv").send(setlistCsv(tracks, range))
+    } else {
+      res.type("application/x-cue").send(setlistCue(tracks, range, { title: `Room ${roomId}`, fileName }))
+    }
+  })
+
+  router.use(handleRoomErrors)
+
+  return router
+}
@@ -0,0 +1,56 @@
+import { Router } from "express"
+import path from "path"
+import { z } from "zod"
+import { recordingFileName, type RecordingService } from "../recordings"
+import type { RoomService } from "../rooms"
+import { bearerToken, handleRoomErrors, resolveRoomIdParam } from "./http"
+
+const downloadQuerySchema = z.object({
+  token: z.string().max(512).optional(),
+})
+
+export function createRecordingsRouter(rooms: RoomService, recordings: RecordingService) {
+  const router = Router()
+  router.param("roomId", resolveRoomIdParam(rooms))
+
+  // Only the host can list its recordings. Each comes with a download link that works
+  // without the host token for a while, so it can be opened straight from the browser.
+  router.get("/api/rooms/:roomId/recordings", async (req, res) => {
+    const { roomId } = req.params
+    const list = await recordings.list(roomId, bearerToken(req))
+
+    res.set("Cache-Control", "no-store")
+    res.json({
+      recordings: list.map(({ downloadToken, ...recording }) => {
+        const query = new URLSearchParams({ token: downloadToken })
+        return { ...recording, downloadPath: `/api/rooms/${roomId}/recordings/${recording.recordingId}?${query}` }
+      }),
+    })
+  })
+
+  router.get("/api/rooms/:roomId/recordings/:recordingId", async (req, res) => {
+    const query = downloadQuerySchema.safeParse(req.query)
+    if (!query.success) {
+      res.status(400).json({ error: query.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    const { roomId, recordingId } = req.params
+    const { recording, filePath } = await recordings.open(roomId, recordingId, {
+      hostToken: bearerToken(req),
+      token: query.data.token,
+    })
+
+    res.sendFile(path.resolve(filePath), {
+      headers: {
+        "Content-Type": "audio/ogg; codecs=opus",
+        "Content-Disposition": `attachment; filename="${recordingFileName(roomId, recording.startedAt)}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  })
+
+  router.use(handleRoomErrors)
+
+  return router
+}
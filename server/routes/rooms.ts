@@ -0,0 +1,231 @@
+import { Router } from "express"
+import { z } from "zod"
+import { displayNameSchema, roomModeSchema, roomSlugSchema, type ShowInfo } from "@/lib/signaling"
+import { showsCalendar } from "../calendar"
+import type { ClusterStats } from "../cluster"
+import type { Config } from "../config"
+import { RoomError, type RoomService } from "../rooms"
+import { bearerToken, handleRoomErrors, resolveRoomIdParam } from "./http"
+
+// Times are ISO 8601 strings or ms since the epoch
+const showSchema = z
+  .object({
+    title: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(1000).optional(),
+    djName: displayNameSchema.optional(),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+  })
+  .refine((show) => show.endsAt > show.startsAt, "The show must end after it starts")
+  .refine((show) => show.endsAt.getTime() > Date.now(), "The show has already ended")
+
+const createRoomSchema = z
+  .object({
+    isPrivate: z.boolean().optional(),
+    passcode: z.string().trim().min(4).max(64).optional(),
+    maxListeners: z.number().int().min(1).max(10_000).optional(),
+    mode: roomModeSchema.optional(),
+    // Schedules a show in the room, reachable at /listen/<slug> when a slug is given
+    slug: roomSlugSchema.optional(),
+    show: showSchema.optional(),
+  })
+  .default({})
+
+// Private rooms take the host token, or the same passcode or invite as the listen page
+const roomQuerySchema = z.object({
+  passcode: z.string().max(64).optional(),
+  invite: z.string().max(512).optional(),
+})
+
+const createInviteSchema = z
+  .object({
+    expiresInMinutes: z
+      .number()
+      .int()
+      .min(1)
+      .max(7 * 24 * 60)
+      .default(24 * 60),
+  })
+  .default({})
+
+const createDjInviteSchema = z.object({
+  displayName: z.string().trim().min(1).max(40),
+  expiresInMinutes: z
+    .number()
+    .int()
+    .min(1)
+    .max(7 * 24 * 60)
+    .default(24 * 60),
+})
+
+export function createRoomsRouter(rooms: RoomService, clusterStats: ClusterStats, config: Config) {
+  const router = Router()
+  router.param("roomId", resolveRoomIdParam(rooms))
+
+  router.get("/api/rooms/:roomId", async (req, res) => {
+    const query = roomQuerySchema.safeParse(req.query)
+    if (!query.success) {
+      res.status(400).json({ error: query.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    const { roomId } = req.params
+    const room = await rooms.getRoom(roomId)
+
+    if (!room) {
+      res.status(404).json({ error: "Room not found" })
+      return
+    }
+
+    // Like in the listing, nothing about a private room is shown to those who can't get in
+    if (!rooms.canSeeRoom(room, { ...query.data, hostToken: bearerToken(req) })) {
+      res.json({ roomId, isPrivate: true })
+      return
+    }
+
+    res.json({
+      roomId,
+      hasHost: !!room.hostId,
+      listenerCount: room.listeners.length,
+      maxListeners: room.maxListeners,
+      mode: room.mode,
+      isActive: !!room.hostId,
+      isPrivate: room.isPrivate,
+      show: room.show,
+      createdAt: new Date(room.createdAt),
+    })
+  })
+
+  router.post("/api/rooms", async (req, res) => {
+    const body = createRoomSchema.safeParse(req.body)
+    if (!body.success) {
+      res.status(400).json({ error: body.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    if (body.data.mode === "relay" && !config.relayEnabled) {
+      throw new RoomError("relay-unavailable", "This server does not relay audio")
+    }
+
+    const { show, ...options } = body.data
+    const { room, hostToken } = await rooms.createRoom({ ...options, show: show && showInfo(show) })
+    res.json({ roomId: room.roomId, hostToken, isPrivate: room.isPrivate, mode: room.mode, show: room.show })
+  })
+
+  // Signed, expiring invite links for private rooms; only the host can create them
+  router.post("/api/rooms/:roomId/invites", async (req, res) => {
+    const body = createInviteSchema.safeParse(req.body)
+    if (!body.success) {
+      res.status(400).json({ error: body.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    const { roomId } = req.params
+    const { invite, expiresAt } = await rooms.createInvite(
+      roomId,
+      bearerToken(req),
+      body.data.expiresInMinutes * 60 * 1000,
+    )
+
+    res.json({
+      invite,
+      expiresAt: new Date(expiresAt),
+      path: `/listen/${roomId}?invite=${encodeURIComponent(invite)}`,
+    })
+  })
+
+  // Signed, expiring links for other DJs to host the room; only the owner can create them
+  router.post("/api/rooms/:roomId/dj-invites", async (req, res) => {
+    const body = createDjInviteSchema.safeParse(req.body)
+    if (!body.success) {
+      res.status(400).json({ error: body.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    const { roomId } = req.params
+    const { invite, expiresAt } = await rooms.createDjInvite(
+      roomId,
+      bearerToken(req),
+      body.data.displayName,
+      body.data.expiresInMinutes * 60 * 1000,
+    )
+
+    res.json({
+      invite,
+      expiresAt: new Date(expiresAt),
+      path: `/host/${roomId}?dj=${encodeURIComponent(invite)}`,
+    })
+  })
+
+  // Password for the room's Icecast mount, for broadcasting from DJ software; only the host can
+  // set it, and each call replaces the previous one
+  router.post("/api/rooms/:roomId/source-password", async (req, res) => {
+    if (!config.icecastPort || !config.relayEnabled) {
+      res.status(404).json({ error: "This server does not accept broadcasting software" })
+      return
+    }
+
+    const { roomId } = req.params
+    const password = await rooms.resetSourcePassword(roomId, bearerToken(req))
+    res.set("Cache-Control", "no-store")
+    res.json({ password, mount: `/${roomId}`, port: config.icecastPort, username: "source" })
+  })
+
+  // Private rooms are left out of the public listing
+  router.get("/api/rooms", async (req, res) => {
+    const activeRooms = (await rooms.listRooms())
+      .filter((room) => room.hostId && !room.isPrivate)
+      .map((room) => ({
+        roomId: room.roomId,
+        listenerCount: room.listeners.length,
+        createdAt: new Date(room.createdAt),
+      }))
+
+    const cluster = await clusterStats.totals()
+
+    res.json({
+      rooms: activeRooms,
+      total: activeRooms.length,
+      maxRooms: config.maxRooms,
+      connections: cluster.connections,
+      instances: cluster.instances,
+    })
+  })
+
+  // Shows in public rooms that have not ended yet, soonest first
+  const upcomingShows = async () => {
+    const now = Date.now()
+    return (await rooms.listRooms())
+      .flatMap(({ roomId, hostId, isPrivate, show }) =>
+        show && !isPrivate && show.endsAt > now ? [{ roomId, isLive: !!hostId, show }] : [],
+      )
+      .sort((a, b) => a.show.startsAt - b.show.startsAt)
+  }
+
+  router.get("/api/shows", async (req, res) => {
+    res.json({ shows: await upcomingShows() })
+  })
+
+  // For calendar apps to subscribe to
+  router.get("/api/shows.ics", async (req, res) => {
+    // Behind a load balancer the original protocol is only in the forwarded header
+    const protocol = req.get("x-forwarded-proto")?.split(",")[0].trim() || req.protocol
+    const calendar = showsCalendar(await upcomingShows(), { origin: `${protocol}://${req.get("host")}` })
+    res.set("Cache-Control", "no-cache")
+    res.type("text/calendar").send(calendar)
+  })
+
+  router.use(handleRoomErrors)
+
+  return router
+}
+
+function showInfo({ title, description, djName, startsAt, endsAt }: z.infer<typeof showSchema>): ShowInfo {
+  return {
+    title,
+    description: description || null,
+    djName: djName || null,
+    startsAt: startsAt.getTime(),
+    endsAt: endsAt.getTime(),
+  }
+}
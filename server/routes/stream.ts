@@ -0,0 +1,84 @@
+import { Router } from "express"
+import { z } from "zod"
+import { clientIdSchema } from "@/lib/signaling"
+import { OggOpusWriter } from "../ogg"
+import type { AudioRelay } from "../relay"
+import type { RoomService } from "../rooms"
+import { handleRoomErrors, resolveRoomIdParam } from "./http"
+
+// Private rooms take the same passcode or invite as the listen page, as query parameters. The
+// listen page also passes its client ID, so bans apply to its fallback stream.
+const streamQuerySchema = z.object({
+  passcode: z.string().max(64).optional(),
+  invite: z.string().max(512).optional(),
+  clientId: clientIdSchema.optional(),
+})
+
+// Clients that fall this far behind are disconnected rather than buffered for
+const MAX_BUFFERED_BYTES = 512 * 1024
+// How often open streams check that their client was not banned since it connected
+const BAN_CHECK_INTERVAL_MS = 10_000
+
+export function createStreamRouter(rooms: RoomService, relay: AudioRelay) {
+  const router = Router()
+  router.param("roomId", resolveRoomIdParam(rooms))
+  // Client IDs of the streams open on this instance, by room; null for players that send none
+  const streams = new Map<string, Map<object, string | null>>()
+
+  // A never-ending Ogg/Opus response, like an Icecast mount. Audio flows once the host is
+  // streaming; the host is asked to publish to the relay as soon as the first client connects.
+  router.get("/stream/:roomId", async (req, res) => {
+    const query = streamQuerySchema.safeParse(req.query)
+    if (!query.success) {
+      res.status(400).json({ error: query.error.issues[0]?.message ?? "Invalid request" })
+      return
+    }
+
+    const { roomId } = req.params
+    const clientId = query.data.clientId ?? null
+    await rooms.verifyListenerAccess(roomId, query.data, [...(streams.get(roomId)?.values() ?? [])])
+
+    const stream = {}
+    const roomStreams = streams.get(roomId) ?? new Map<object, string | null>()
+    roomStreams.set(stream, clientId)
+    streams.set(roomId, roomStreams)
+
+    res.writeHead(200, {
+      "Content-Type": "audio/ogg; codecs=opus",
+      "Cache-Control": "no-store",
+      // Keeps reverse proxies such as nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+      "icy-name": `Room ${roomId}`,
+    })
+
+    const writer = new OggOpusWriter()
+    res.write(writer.headers())
+
+    const removeSink = relay.addSink(roomId, (packet) => {
+      if (res.writableLength > MAX_BUFFERED_BYTES) {
+        res.destroy()
+        return
+      }
+      res.write(writer.packet(packet.payload, packet.header))
+    })
+
+    // Ends the stream once the room is gone or the host banned its client
+    const banCheck = setInterval(async () => {
+      const room = await rooms.getRoom(roomId).catch(() => undefined)
+      if (room === null || (room && clientId && room.bannedClientIds.includes(clientId))) {
+        res.destroy()
+      }
+    }, BAN_CHECK_INTERVAL_MS)
+
+    res.on("close", () => {
+      removeSink()
+      clearInterval(banCheck)
+      roomStreams.delete(stream)
+      if (roomStreams.size === 0 && streams.get(roomId) === roomStreams) streams.delete(roomId)
+    })
+  })
+
+  router.use(handleRoomErrors)
+
+  return router
+}
@@ -0,0 +1,85 @@
+// Setlists: the tracks played in a room, exported as CSV for spreadsheets and tracklist sites,
+// or as a CUE sheet that splits a recording of the set into its tracks in audio players.
+import type { PlayedTrack } from "@/lib/signaling"
+
+// CUE sheets count time in CD frames
+const CUE_FRAMES_PER_SECOND = 75
+
+export interface SetlistRange {
+  // Time the audio file starts at; track positions are counted from here
+  start: number
+  // Tracks that start after this are left out, e.g. those played after a recording stopped
+  end?: number
+}
+
+// The tracks that were playing at some point within the range
+export function tracksInRange(tracks: PlayedTrack[], { start, end = Infinity }: SetlistRange) {
+  return tracks.filter((track) => (track.endedAt === null || track.endedAt > start) && track.startedAt < end)
+}
+
+export function setlistCsv(tracks: PlayedTrack[], range: SetlistRange) {
+  const rows = tracksInRange(tracks, range).map((track, index) => [
+    String(index + 1),
+    new Date(track.startedAt).toISOString(),
+    track.endedAt === null ? "" : new Date(track.endedAt).toISOString(),
+    formatOffset(track.startedAt - range.start),
+    track.artist ?? "",
+    track.title,
+    track.bpm ? String(track.bpm) : "",
+    track.artworkUrl ?? "",
+  ])
+  const header = ["position", "started_at", "ended_at", "offset", "artist", "title", "bpm", "artwork_url"]
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n"
+}
+
+export function setlistCue(tracks: PlayedTrack[], range: SetlistRange, { title, fileName }: CueOptions) {
+  const lines = [
+    `REM DATE ${new Date(range.start).toISOString().slice(0, 10)}`,
+    `TITLE ${cueString(title)}`,
+    `FILE ${cueString(fileName)} WAVE`,
+  ]
+  tracksInRange(tracks, range).forEach((track, index) => {
+    lines.push(`  TRACK ${String(index + 1).padStart(2, "0")} AUDIO`, `    TITLE ${cueString(track.title)}`)
+    if (track.artist) {
+      lines.push(`    PERFORMER ${cueString(track.artist)}`)
+    }
+    // A track that was already playing when the file starts begins with it
+    lines.push(`    INDEX 01 ${cueTime(Math.max(0, track.startedAt - range.start))}`)
+  })
+  return lines.join("\r\n") + "\r\n"
+}
+
+interface CueOptions {
+  title: string
+  // The audio file the sheet describes
+  fileName: string
+}
+
+// Quoted, and prefixed so spreadsheets don't run fields that look like formulas
+function csvField(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// CUE strings have no escapes, so double quotes become single ones
+function cueString(value: string) {
+  return `"${value.replace(/"/g, "'").replace(/[\r\n]+/g, " ")}"`
+}
+
+// MM:SS:FF, with minutes going past 99 for long sets
+function cueTime(ms: number) {
+  const frames = Math.floor((ms * CUE_FRAMES_PER_SECOND) / 1000)
+  const seconds = Math.floor(frames / CUE_FRAMES_PER_SECOND)
+  return [Math.floor(seconds / 60), seconds % 60, frames % CUE_FRAMES_PER_SECOND]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":")
+}
+
+// H:MM:SS from the start of the set; negative for a track that was already playing
+function formatOffset(ms: number) {
+  const seconds = Math.round(Math.abs(ms) / 1000)
+  const parts = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60].map((part, index) =>
+    index === 0 ? String(part) : String(part).padStart(2, "0"),
+  )
+  return (ms < 0 ? "-" : "") + parts.join(":")
+}
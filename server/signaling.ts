@@ -0,0 +1,709 @@
+import type { Server, Socket } from "socket.io"
+import {
+  HOST_PARENT_ID,
+  parseClientEvent,
+  RELAY_PEER_ID,
+  type ClientToServerEvents,
+  type DjPresence,
+  type ListenerPresence,
+  type RemovalReason,
+  type Role,
+  type RoomMode,
+  type ServerToClientEvents,
+  type SessionDescription,
+  type SignalingError,
+  type TrackRequest,
+  type ValidatedClientEvent,
+} from "@/lib/signaling"
+import type { Config } from "./config"
+import type { RecordingService } from "./recordings"
+import type { AudioRelay, RelaySignal } from "./relay"
+import {
+  OWNER_DJ_KEY,
+  RoomError,
+  type CascadeChange,
+  type DjRecord,
+  type HostJoinOptions,
+  type ListenerJoinOptions,
+  type ListenerRecord,
+  type RoomRecord,
+  type RoomService,
+  type TrackRequestRecord,
+} from "./rooms"
+
+export interface SocketData {
+  roomId?: string
+  role?: Role
+}
+
+// Events between instances of the service, only delivered when clustered through Redis
+export interface InterServerEvents {
+  "relay-subscribe": (payload: { roomId: string; listenerId: string }) => void
+  "relay-unsubscribe": (payload: { roomId: string; listenerId: string }) => void
+  "relay-signal": (payload: RelaySignal) => void
+  "relay-close": (payload: { roomId: string }) => void
+}
+
+export type SignalingServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+export type SignalingSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+export type Signaling = ReturnType<typeof registerSignaling>
+
+function emitError(socket: SignalingSocket, error: SignalingError) {
+  socket.emit("error", error)
+}
+
+// Registers a handler that only runs once the inbound payload passes validation.
+// Room errors thrown by the handler are reported back to the client.
+function onValidated<E extends ValidatedClientEvent>(
+  socket: SignalingSocket,
+  event: E,
+  handler: (payload: Parameters<ClientToServerEvents[E]>[0]) => void | Promise<void>,
+) {
+  // Payloads are untrusted until parsed, so the listener accepts anything the event could carry
+  const listener = (payload: unknown) => {
+    const result = parseClientEvent(event, payload)
+    if (!result.success) {
+      emitError(socket, result.error)
+      return
+    }
+
+    Promise.resolve(handler(result.data)).catch((error) => {
+      if (error instanceof RoomError) {
+        emitError(socket, { code: error.code, message: error.message, event })
+      } else {
+        console.error(`Error handling ${event} for ${socket.id}:`, error)
+      }
+    })
+  }
+  socket.on<ValidatedClientEvent>(event, listener)
+}
+
+// The roster entry the host sees; client and session IDs stay on the server
+function listenerPresence({
+  socketId,
+  clientId: _clientId,
+  sessionId: _sessionId,
+  ...listener
+}: ListenerRecord): ListenerPresence {
+  return { listenerId: socketId, ...listener }
+}
+
+// DJ keys stay on the server, since a DJ link's ID lets its holder reclaim the air
+function djPresence({ socketId, key, ...dj }: DjRecord): DjPresence {
+  return { djId: socketId, isOwner: key === OWNER_DJ_KEY, ...dj }
+}
+
+// Requests as listeners see them; who requested and voted stays on the server
+function trackRequestView({ requesterId: _requesterId, voterIds, ...request }: TrackRequestRecord): TrackRequest {
+  return { ...request, votes: voterIds.length }
+}
+
+// Minimum time between messages of one kind from a socket; anything faster is refused
+const SIGNAL_INTERVAL_MS = 50
+const CHAT_INTERVAL_MS = 1000
+const REQUEST_INTERVAL_MS = 1000
+const REACTION_INTERVAL_MS = 250
+
+function rateLimiter(intervalMs: number) {
+  let last = 0
+  return () => {
+    const now = Date.now()
+    if (now - last < intervalMs) return false
+
+    last = now
+    return true
+  }
+}
+
+// Listeners report stats every few seconds; anything faster than this is dropped
+// unless it carries a connection state or name change
+const PRESENCE_STATS_INTERVAL_MS = 1000
+
+// Socket.io connection handling with Cloud Run optimizations
+// relay is null when the server does not offer relay mode, recordings when it does not record
+export function registerSignaling(
+  io: SignalingServer,
+  rooms: RoomService,
+  config: Config,
+  relay: AudioRelay | null,
+  recordings: RecordingService | null,
+) {
+  let connectionCount = 0
+
+  io.on("connection", (socket) => {
+    connectionCount++
+
+    // Connection limit for Cloud Run
+    if (connectionCount > config.maxConnections) {
+      emitError(socket, { code: "server-at-capacity", message: "Server at capacity" })
+      socket.disconnect()
+      connectionCount--
+      return
+    }
+
+    onValidated(socket, "join-room", async ({ roomId: requestedRoomId, role, hostToken, djInvite, ...options }) => {
+      const roomId = await rooms.resolveRoomId(requestedRoomId)
+      if (role === "host") {
+        await handleHostJoin(socket, roomId, { hostToken, djInvite })
+      } else {
+        await handleListenerJoin(socket, roomId, options)
+      }
+    })
+
+    // WebRTC signaling with rate limiting
+    const rateLimitSignal = rateLimiter(SIGNAL_INTERVAL_MS)
+    const rateLimitChat = rateLimiter(CHAT_INTERVAL_MS)
+    const rateLimitReaction = rateLimiter(REACTION_INTERVAL_MS)
+    const rateLimitRequest = rateLimiter(REQUEST_INTERVAL_MS)
+
+    // Messages addressed to RELAY_PEER_ID are for the server's relay rather than another client
+    onValidated(socket, "offer", async ({ to, offer, restart, stage }) => {
+      if (!rateLimitSignal()) return
+
+      if (to === RELAY_PEER_ID) {
+        await publishToRelay(socket, offer, restart)
+      } else {
+        socket.to(to).emit("offer", { from: socket.id, offer, restart, stage })
+      }
+    })
+
+    onValidated(socket, "answer", ({ to, answer, stage }) => {
+      if (!rateLimitSignal()) return
+
+      if (to === RELAY_PEER_ID) {
+        relay?.signal({ from: socket.id, answer })
+      } else {
+        socket.to(to).emit("answer", { from: socket.id, answer, stage })
+      }
+    })
+
+    onValidated(socket, "ice-candidate", ({ to, candidate, stage }) => {
+      if (!rateLimitSignal()) return
+
+      if (to === RELAY_PEER_ID) {
+        relay?.signal({ from: socket.id, candidate })
+      } else {
+        socket.to(to).emit("ice-candidate", { from: socket.id, candidate, stage })
+      }
+    })
+
+    // Host controls, only from the DJ on air
+    const announceMute = (event: "host-muted" | "host-unmuted") => {
+      const { roomId, role } = socket.data
+      if (role !== "host" || !roomId) return
+
+      rooms
+        .getRoom(roomId)
+        .then((room) => room?.hostId === socket.id && socket.to(roomId).emit(event))
+        .catch((error) => console.error(`Error handling ${event} for ${socket.id}:`, error))
+    }
+
+    socket.on("mute-stream", () => announceMute("host-muted"))
+    socket.on("unmute-stream", () => announceMute("host-unmuted"))
+
+    // Host moderation. The room service rejects these unless the socket holds the host slot.
+    onValidated(socket, "kick-listener", async ({ listenerId }) => {
+      await removeListener(socket, listenerId, "kicked")
+    })
+
+    onValidated(socket, "ban-listener", async ({ listenerId }) => {
+      await removeListener(socket, listenerId, "banned")
+    })
+
+    onValidated(socket, "set-max-listeners", async ({ maxListeners }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      const room = await rooms.setMaxListeners(roomId, socket.id, maxListeners)
+      socket.emit("max-listeners-updated", { maxListeners: room.maxListeners })
+    })
+
+    // Once the invited listener accepts, the host connects to it to receive its microphone
+    onValidated(socket, "invite-to-stage", async ({ listenerId }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      announceStage(await rooms.inviteToStage(roomId, socket.id, listenerId))
+    })
+
+    onValidated(socket, "respond-to-stage-invite", async ({ accept }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      announceStage(await rooms.respondToStageInvite(roomId, socket.id, accept), socket.id)
+    })
+
+    socket.on("leave-stage", () => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      rooms
+        .leaveStage(roomId, socket.id)
+        .then(({ room, ended }) => ended && announceStage(room, ended.listenerId))
+        .catch((error) => console.error(`Error handling leave-stage for ${socket.id}:`, error))
+    })
+
+    // The previous DJ closes its connections once it sees it is off air, and the next one
+    // connects to the listeners as on joining. Listeners take the new DJ's offers in place of
+    // the old connection, and relay listeners switch over when it publishes.
+    onValidated(socket, "hand-off", async ({ djId }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      const { room, previousHostId, endedStage } = await rooms.handOff(roomId, socket.id, djId)
+      if (previousHostId === djId) return
+
+      if (endedStage) {
+        const recipients = [previousHostId, endedStage.listenerId].filter((id): id is string => !!id)
+        io.to(recipients).emit("stage-updated", { stage: null })
+      }
+      announceDjs(room)
+      await goOnAir(djId, room, !previousHostId)
+    })
+
+    // Switching to relay has the host publish to the server, which then connects the listeners.
+    // Cascade assigns every listener a parent, and mesh has the host connect to everyone again.
+    onValidated(socket, "set-room-mode", async ({ mode }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      if (mode === "relay" && !relay) {
+        throw new RoomError("relay-unavailable", "This server does not relay audio")
+      }
+
+      await applyRoomMode(await rooms.setMode(roomId, socket.id, mode))
+    })
+
+    // Recordings are made from the relay, which the host publishes to while one is running
+    onValidated(socket, "set-recording", async ({ recording }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      if (!recordings) {
+        throw new RoomError("recording-unavailable", "This server does not record rooms")
+      }
+
+      if (recording) {
+        await recordings.start(roomId, socket.id)
+      } else {
+        await recordings.stop(roomId, socket.id)
+      }
+    })
+
+    onValidated(socket, "set-now-playing", async ({ track }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      announceNowPlaying(await rooms.setNowPlaying(roomId, { hostSocketId: socket.id }, track))
+    })
+
+    // Chat and reactions go to everyone in the room, including the sender
+    onValidated(socket, "send-chat-message", async ({ text }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      if (!rateLimitChat()) {
+        throw new RoomError("rate-limited", "You're sending messages too fast")
+      }
+
+      const { message } = await rooms.postChatMessage(roomId, socket.id, text)
+      io.to(roomId).emit("chat-message", { message })
+    })
+
+    // Reactions are not kept, and extra ones are dropped rather than refused
+    onValidated(socket, "send-reaction", ({ emoji }) => {
+      const { roomId, role } = socket.data
+      if (!roomId || !role || !rateLimitReaction()) return
+
+      io.to(roomId).emit("reaction", { emoji, role })
+    })
+
+    onValidated(socket, "delete-chat-message", async ({ messageId }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      await rooms.deleteChatMessage(roomId, socket.id, messageId)
+      io.to(roomId).emit("chat-message-deleted", { messageId })
+    })
+
+    onValidated(socket, "request-track", async (track) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      if (!rateLimitRequest()) {
+        throw new RoomError("rate-limited", "You're requesting too fast")
+      }
+
+      announceTrackRequests(await rooms.requestTrack(roomId, socket.id, track))
+    })
+
+    onValidated(socket, "vote-track-request", async ({ requestId }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      announceTrackRequests(await rooms.voteTrackRequest(roomId, socket.id, requestId))
+    })
+
+    // Playing a request also makes it the room's current track
+    onValidated(socket, "update-track-request", async ({ requestId, status }) => {
+      const { roomId } = socket.data
+      if (!roomId) return
+
+      const { room, request } = await rooms.updateTrackRequest(roomId, socket.id, requestId, status)
+      io.to(roomId).emit("track-request-updated", { request: trackRequestView(request) })
+      announceTrackRequests(room)
+
+      if (status === "played") {
+        const { title, artist } = request
+        announceNowPlaying(await rooms.setNowPlaying(roomId, { hostSocketId: socket.id }, { title, artist }))
+      }
+    })
+
+    let lastStatsReport = 0
+
+    onValidated(socket, "presence-update", async ({ displayName, connectionState, stats }) => {
+      const { roomId, role } = socket.data
+      if (!roomId || role !== "listener") return
+
+      const now = Date.now()
+      if (stats) {
+        if (now - lastStatsReport < PRESENCE_STATS_INTERVAL_MS && !connectionState && displayName === undefined) {
+          return
+        }
+        lastStatsReport = now
+      }
+
+      const updated = await rooms.updateListener(roomId, socket.id, {
+        ...(displayName !== undefined && { displayName: displayName || null }),
+        ...(connectionState && { connectionState }),
+        ...(stats && { stats, statsUpdatedAt: now }),
+      })
+      if (updated?.room.hostId) {
+        io.to(updated.room.hostId).emit("listener-updated", { listener: listenerPresence(updated.listener) })
+      }
+    })
+
+    socket.on("disconnect", () => {
+      connectionCount--
+      handleDisconnect(socket).catch((error) => {
+        console.error(`Error cleaning up after ${socket.id}:`, error)
+      })
+    })
+  })
+
+  async function handleHostJoin(socket: SignalingSocket, roomId: string, credentials: HostJoinOptions) {
+    const { room, hostToken: mintedToken, replacedHostId } = await rooms.joinAsHost(roomId, socket.id, credentials)
+
+    // The same DJ took over from a session that is still connected
+    if (replacedHostId) {
+      io.to(replacedHostId).emit("error", {
+        code: "host-replaced",
+        message: "This room was reclaimed by its host in another session",
+      })
+      io.in(replacedHostId).disconnectSockets()
+    }
+
+    socket.join(roomId)
+    socket.data.roomId = roomId
+    socket.data.role = "host"
+    socket.emit("room-joined", {
+      roomId,
+      role: "host",
+      isPrivate: room.isPrivate,
+      hostToken: mintedToken,
+      show: room.show,
+    })
+
+    socket.emit("now-playing-updated", { track: room.nowPlaying })
+    socket.emit("chat-history", { messages: room.chat })
+    socket.emit("track-requests-updated", { requests: room.trackRequests.map(trackRequestView) })
+    announceDjs(room)
+
+    // DJs standing by only follow the room until they are handed the air
+    if (room.hostId === socket.id) {
+      await goOnAir(socket.id, room, true)
+    }
+  }
+
+  // Hands the room over to the DJ on air: its settings, and every listener to connect to. The
+  // listeners are told a DJ is back when nobody was on air before.
+  async function goOnAir(hostId: string, room: RoomRecord, announce: boolean) {
+    const { roomId } = room
+    const host = io.to(hostId)
+    host.emit("max-listeners-updated", { maxListeners: room.maxListeners })
+    host.emit("room-mode-updated", { mode: room.mode, relayAvailable: !!relay })
+    host.emit("source-updated", { source: room.source })
+    if (relay) {
+      host.emit("http-listeners-updated", { count: relay.sinkCount(roomId, "listener") })
+    }
+    if (recordings) {
+      host.emit("recording-updated", { recording: recordings.current(roomId) })
+    }
+
+    room.listeners.forEach((listener) => {
+      // Held listeners have no socket to connect to until they come back, so they only join the roster
+      if (listener.disconnectedAt) {
+        host.emit("listener-updated", { listener: listenerPresence(listener) })
+        return
+      }
+
+      if (announce) {
+        io.to(listener.socketId).emit("host-connected")
+      }
+      host.emit("listener-joined", { listenerId: listener.socketId, listener: listenerPresence(listener) })
+    })
+
+    // The new host socket takes over feeding the top of the cascade tree
+    if (room.mode === "cascade") {
+      const { room: balanced, changes } = await rebalanceCascade(roomId)
+      const placed = new Set(changes.map(({ listenerId }) => listenerId))
+      balanced?.listeners
+        .filter(({ socketId, parentId }) => parentId === HOST_PARENT_ID && !placed.has(socketId))
+        .forEach(({ socketId }) => host.emit("child-assigned", { listenerId: socketId }))
+    }
+  }
+
+  async function handleListenerJoin(socket: SignalingSocket, roomId: string, options: ListenerJoinOptions) {
+    let joined
+    try {
+      joined = await rooms.joinAsListener(roomId, socket.id, options)
+    } catch (error) {
+      // Refusals the listener cannot fix by retrying get a removal notice rather than an error
+      if (error instanceof RoomError && (error.code === "banned" || error.code === "room-full")) {
+        socket.emit("removed-from-room", { reason: error.code, message: error.message })
+        return
+      }
+      throw error
+    }
+
+    const { room, replacedListenerId, detachedFrom } = joined
+    socket.join(roomId)
+    socket.data.roomId = roomId
+    socket.data.role = "listener"
+    socket.emit("room-joined", { roomId, role: "listener", isPrivate: room.isPrivate, show: room.show })
+    socket.emit("now-playing-updated", { track: room.nowPlaying })
+    socket.emit("chat-history", { messages: room.chat })
+    socket.emit("track-requests-updated", { requests: room.trackRequests.map(trackRequestView) })
+
+    // The same tab came back after its socket dropped; make sure the old one is gone everywhere
+    if (replacedListenerId) {
+      io.in(replacedListenerId).disconnectSockets()
+      relay?.unsubscribe(roomId, replacedListenerId)
+    }
+
+    // Notify host
+    if (room.hostId) {
+      const listener = listenerPresence(room.listeners.find(({ socketId }) => socketId === socket.id)!)
+      if (replacedListenerId) {
+        socket.to(room.hostId).emit("listener-reconnected", { previousListenerId: replacedListenerId, listener })
+      } else {
+        socket.to(room.hostId).emit("listener-joined", { listenerId: socket.id, listener })
+      }
+      socket.emit("host-connected")
+    }
+
+    // Update listener count
+    socket.to(roomId).emit("listener-count-updated", { count: room.listeners.length })
+
+    if (room.mode === "relay") {
+      relay?.subscribe(roomId, socket.id)
+    } else if (room.mode === "cascade") {
+      if (detachedFrom) {
+        announceCascadeChange(room, { ...detachedFrom, previousParentId: detachedFrom.parentId, parentId: undefined })
+      }
+      await rebalanceCascade(roomId)
+    }
+  }
+
+  const removalMessages: Record<Exclude<RemovalReason, "room-full">, string> = {
+    kicked: "The host removed you from this room",
+    banned: "The host banned you from this room",
+  }
+
+  // Tells the listener why it is being removed, then disconnects it. Its roster entry is
+  // already gone by the time the disconnect is processed, so the host is told here.
+  async function removeListener(
+    socket: SignalingSocket,
+    listenerId: string,
+    reason: Exclude<RemovalReason, "room-full">,
+  ) {
+    const { roomId } = socket.data
+    if (!roomId) {
+      throw new RoomError("not-host", "Only the host can do that")
+    }
+
+    const { room } = await rooms.removeListener(roomId, socket.id, listenerId, reason === "banned")
+    io.to(listenerId).emit("removed-from-room", { reason, message: removalMessages[reason] })
+    io.in(listenerId).disconnectSockets()
+
+    socket.emit("listener-left", { listenerId })
+    io.to(roomId).emit("listener-count-updated", { count: room.listeners.length })
+  }
+
+  async function handleDisconnect(socket: SignalingSocket) {
+    const { roomId, role } = socket.data
+    if (!roomId || !role) return
+
+    const { room, hostId, wasHost, listener, held, endedStage } = await rooms.leave(roomId, socket.id, role)
+
+    if (endedStage) {
+      const remaining = wasHost ? endedStage.listenerId : hostId
+      if (remaining) {
+        io.to(remaining).emit("stage-updated", { stage: null })
+      }
+    }
+
+    if (role === "host") {
+      relay?.unpublish(roomId, socket.id)
+      if (room) announceDjs(room)
+    } else {
+      relay?.unsubscribe(roomId, socket.id)
+    }
+
+    // Whoever this listener fed gets a new parent straight away, even if it comes back
+    if (role === "listener" && room?.mode === "cascade") {
+      await rebalanceCascade(roomId)
+    }
+
+    if (wasHost) {
+      socket.to(roomId).emit("host-disconnected", { reclaimableUntil: Date.now() + config.hostReconnectGrace * 1000 })
+    } else if (held && listener) {
+      // Keep the roster entry while the listener reconnects
+      if (hostId) {
+        io.to(hostId).emit("listener-updated", { listener: listenerPresence(listener) })
+      }
+
+      const timer = setTimeout(() => {
+        releaseHeldListener(roomId, socket.id).catch((error) => {
+          console.error(`Error releasing listener ${socket.id}:`, error)
+        })
+      }, config.listenerReconnectGrace * 1000)
+      timer.unref()
+    } else if (listener) {
+      if (hostId) {
+        socket.to(hostId).emit("listener-left", { listenerId: socket.id })
+      }
+
+      // Update listener count
+      socket.to(roomId).emit("listener-count-updated", { count: room?.listeners.length ?? 0 })
+    }
+  }
+
+  async function publishToRelay(socket: SignalingSocket, offer: SessionDescription, restart?: boolean) {
+    const { roomId } = socket.data
+    const room = roomId ? await rooms.getRoom(roomId) : null
+    if (!roomId || room?.hostId !== socket.id) {
+      throw new RoomError("not-host", "Only the host can publish to the relay")
+    }
+    if (!relay || (room.mode !== "relay" && relay.sinkCount(roomId) === 0)) {
+      throw new RoomError("relay-unavailable", "This room is not using the relay")
+    }
+    if (room.source) {
+      throw new RoomError("source-active", "Broadcasting software is providing this room's audio")
+    }
+
+    const answer = await relay.publish(roomId, socket.id, offer, restart)
+    socket.emit("answer", { from: RELAY_PEER_ID, answer })
+  }
+
+  // Tells the host about a mode change and moves the listeners over to the new delivery
+  async function applyRoomMode(room: RoomRecord) {
+    const { roomId, hostId } = room
+    if (hostId) {
+      io.to(hostId).emit("room-mode-updated", { mode: room.mode, relayAvailable: !!relay })
+    }
+
+    if (room.mode !== "relay") {
+      relay?.closeRoom(roomId)
+    }
+    await rebalanceCascade(roomId)
+
+    if (room.mode === "mesh" && hostId) {
+      room.listeners
+        .filter((listener) => !listener.disconnectedAt)
+        .forEach((listener) => {
+          io.to(hostId).emit("listener-joined", { listenerId: listener.socketId, listener: listenerPresence(listener) })
+        })
+    }
+  }
+
+  // An external source connected to or left the room, possibly switching it to the relay
+  async function announceSource(room: RoomRecord, previousMode: RoomMode) {
+    if (room.hostId) {
+      io.to(room.hostId).emit("source-updated", { source: room.source })
+    }
+    if (room.mode !== previousMode) {
+      await applyRoomMode(room)
+    }
+  }
+
+  // Everyone in the room sees the track, including listeners connected to other instances
+  function announceNowPlaying(room: RoomRecord) {
+    io.to(room.roomId).emit("now-playing-updated", { track: room.nowPlaying })
+  }
+
+  // Every DJ in the room follows who else is there and who is on air
+  function announceDjs(room: RoomRecord) {
+    if (room.djs.length === 0) return
+
+    const djs = room.djs.map(djPresence)
+    io.to(room.djs.map(({ socketId }) => socketId)).emit("djs-updated", { djs, onAirId: room.hostId })
+  }
+
+  // The host and the guest follow the stage. previousGuestId is told too when the stage
+  // ended or the invitation was declined.
+  function announceStage(room: RoomRecord, previousGuestId?: string) {
+    const recipients = [room.hostId, room.stage?.listenerId, previousGuestId].filter((id): id is string => !!id)
+    io.to(recipients).emit("stage-updated", { stage: room.stage })
+  }
+
+  function announceTrackRequests(room: RoomRecord) {
+    io.to(room.roomId).emit("track-requests-updated", { requests: room.trackRequests.map(trackRequestView) })
+  }
+
+  // Re-places listeners in a cascade room and tells parents which listeners to start or stop
+  // feeding. The host's roster shows who feeds whom.
+  async function rebalanceCascade(roomId: string) {
+    const { room, changes } = await rooms.rebalanceCascade(roomId)
+    if (room) {
+      changes.forEach((change) => announceCascadeChange(room, change))
+    }
+    return { room, changes }
+  }
+
+  function announceCascadeChange(room: RoomRecord, { listenerId, previousParentId, parentId }: CascadeChange) {
+    const parentSocket = (id: string | null | undefined) => (id === HOST_PARENT_ID ? room.hostId : id)
+
+    const previousParent = parentSocket(previousParentId)
+    if (previousParent) {
+      io.to(previousParent).emit("child-removed", { listenerId })
+    }
+
+    const parent = parentSocket(parentId)
+    if (parent) {
+      io.to(parent).emit("child-assigned", { listenerId })
+    }
+
+    const listener = room.listeners.find(({ socketId }) => socketId === listenerId)
+    if (listener && room.hostId) {
+      io.to(room.hostId).emit("listener-updated", { listener: listenerPresence(listener) })
+    }
+  }
+
+  async function releaseHeldListener(roomId: string, listenerId: string) {
+    const released = await rooms.releaseListener(roomId, listenerId)
+    if (!released?.room) return
+
+    const { room } = released
+    if (room.hostId) {
+      io.to(room.hostId).emit("listener-left", { listenerId })
+    }
+    io.to(roomId).emit("listener-count-updated", { count: room.listeners.length })
+  }
+
+  return {
+    connectionCount: () => connectionCount,
+    announceSource,
+    announceNowPlaying,
+  }
+}